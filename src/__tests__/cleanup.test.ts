@@ -2,9 +2,10 @@ import { test, expect } from "bun:test";
 import { mkdtemp, rm } from "fs/promises";
 import { tmpdir } from "os";
 import { join } from "path";
-import { writeTextFile, fileExists } from "../utils/fs-compat";
+import { writeTextFile, fileExists, readTextFile } from "../utils/fs-compat";
 import { cleanupCommand } from "../commands/cleanup";
 import { mkdir } from "fs/promises";
+import { acquireLock, releaseLock } from "../utils/lock";
 
 function createMockContext(tmpDir: string): any {
   return {
@@ -200,6 +201,114 @@ usage:
   }
 });
 
+test("cleanup: removes only the index entry whose whole heading matches", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "cleanup-test-"));
+
+  try {
+    const skillDir = join(tmpDir, ".opencode", "skills", "test-project");
+    const modulesDir = join(skillDir, "modules");
+    await mkdir(modulesDir, { recursive: true });
+
+    const indexPath = join(skillDir, "SKILL.md");
+    await writeTextFile(indexPath, `---
+name: test-project-conventions
+description: Project conventions
+---
+
+# Project Knowledge
+
+### src-api
+API routes
+- **Location**: \`modules/src-api.md\`
+
+### src-a
+Module a
+- **Location**: \`modules/src-a.md\`
+`);
+
+    const oldDate = new Date(Date.now() - 95 * 24 * 60 * 60 * 1000).toISOString();
+    await writeTextFile(join(modulesDir, "src-a.md"), `---
+name: src-a
+description: Module a
+usage:
+  created_at: ${oldDate}
+  last_accessed: ${oldDate}
+  access_count: 0
+  last_updated: ${oldDate}
+---
+
+# Module a
+`);
+
+    await cleanupCommand.execute({ confirm: true }, createMockContext(tmpDir));
+
+    const indexContent = await readTextFile(indexPath);
+    expect(indexContent).not.toContain("### src-a\n");
+    expect(indexContent).toContain("### src-api\nAPI routes\n- **Location**: `modules/src-api.md`\n");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("cleanup: waits for the module and index locks held by writers", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "cleanup-test-"));
+
+  try {
+    const skillDir = join(tmpDir, ".opencode", "skills", "test-project");
+    const modulesDir = join(skillDir, "modules");
+    await mkdir(modulesDir, { recursive: true });
+
+    const indexPath = join(skillDir, "SKILL.md");
+    await writeTextFile(indexPath, `---
+name: test-project-conventions
+description: Project conventions
+---
+
+# Project Knowledge
+
+### src-old
+Old module
+- **Location**: \`modules/src-old.md\`
+`);
+
+    const oldDate = new Date(Date.now() - 95 * 24 * 60 * 60 * 1000).toISOString();
+    const oldSkillPath = join(modulesDir, "src-old.md");
+    await writeTextFile(oldSkillPath, `---
+name: src-old
+description: Old module
+usage:
+  created_at: ${oldDate}
+  last_accessed: ${oldDate}
+  access_count: 0
+  last_updated: ${oldDate}
+---
+
+# Old Module
+`);
+
+    // Writes in progress: an extraction holds both locks and adds an index entry
+    const moduleLock = await acquireLock(join(modulesDir, ".lock"));
+    const indexLock = await acquireLock(join(skillDir, ".lock"));
+    const cleanup = cleanupCommand.execute({ confirm: true }, createMockContext(tmpDir));
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(await fileExists(oldSkillPath)).toBe(true);
+    await releaseLock(moduleLock);
+
+    const before = await readTextFile(indexPath);
+    await new Promise(resolve => setTimeout(resolve, 150));
+    await writeTextFile(indexPath, `${before}\n### src-new\nNew module\n- **Location**: \`modules/src-new.md\`\n`);
+    await releaseLock(indexLock);
+    await cleanup;
+
+    expect(await fileExists(oldSkillPath)).toBe(false);
+    const indexContent = await readTextFile(indexPath);
+    expect(indexContent).not.toContain("src-old");
+    expect(indexContent).toContain("### src-new\nNew module");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
 test("cleanup: uses AND logic for criteria (all conditions must be met)", async () => {
   const tmpDir = await mkdtemp(join(tmpdir(), "cleanup-test-"));
   
@@ -0,0 +1,94 @@
+import { test, expect } from "bun:test";
+import { join } from "path";
+import { mkdtemp, rm, mkdir } from "fs/promises";
+import { tmpdir } from "os";
+import { writeTextFile } from "../utils/fs-compat";
+import { estimateTokens } from "../utils/tokens";
+import { createToolCallRecord } from "../preprocessing/tool-calls";
+import { collectCodeSnippets, findDeclarations, fitSnippets, parseDiffHunks } from "../preprocessing/code-snippets";
+
+const SOURCE = [
+  "// Copyright header",                      // 1
+  "import { money } from './money';",         // 2
+  "",                                         // 3
+  "export interface Charge {",                // 4
+  "  amount: number;",                        // 5
+  "}",                                        // 6
+  "",                                         // 7
+  "export class Biller {",                    // 8
+  "  private rate = 2;",                      // 9
+  "",                                         // 10
+  "  charge(amount: number): number {",       // 11
+  "    const fee = amount * this.rate;",      // 12
+  "    return money(amount + fee); // { not a brace",
+  "  }",                                      // 14
+  "}",                                        // 15
+  "",                                         // 16
+  "export function refundPolicy(days: number) {",
+  "  return days <= 30 ? '}' : 'none';",      // 18
+  "}",                                        // 19
+].join("\n");
+
+test("findDeclarations() outlines top-level declarations and methods", () => {
+  expect(findDeclarations(SOURCE)).toEqual([
+    { name: "Charge", start: 4, end: 6 },
+    { name: "Biller", start: 8, end: 15 },
+    { name: "charge", start: 11, end: 14 },
+    { name: "refundPolicy", start: 17, end: 19 },
+  ]);
+});
+
+test("parseDiffHunks() returns new-side ranges per file", () => {
+  const diff = [
+    "diff --git a/src/a.ts b/src/a.ts",
+    "--- a/src/a.ts",
+    "+++ b/src/a.ts",
+    "@@ -10,3 +10,4 @@ export class A {",
+    "@@ -40 +41 @@",
+    "diff --git a/src/gone.ts b/src/gone.ts",
+    "+++ /dev/null",
+    "@@ -1,3 +0,0 @@",
+  ].join("\n");
+
+  expect(Array.from(parseDiffHunks(diff))).toEqual([
+    ["src/a.ts", [{ start: 10, end: 13 }, { start: 41, end: 41 }]],
+  ]);
+});
+
+test("collectCodeSnippets() shows enclosing code of edits and discussed declarations", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-snippets-"));
+
+  try {
+    await mkdir(join(tmpDir, "src"), { recursive: true });
+    await writeTextFile(join(tmpDir, "src", "billing.ts"), SOURCE);
+    await writeTextFile(join(tmpDir, "src", "policy.ts"), SOURCE);
+
+    const toolCalls = [
+      createToolCallRecord("read", { filePath: join(tmpDir, "src", "policy.ts") }, { title: "src/policy.ts" }, tmpDir),
+      createToolCallRecord("read", { filePath: "src/billing.ts" }, { title: "src/billing.ts" }, tmpDir),
+      createToolCallRecord("edit", { filePath: "src/billing.ts" }, { title: "src/billing.ts" }, tmpDir),
+    ];
+    const diff = "+++ b/src/billing.ts\n@@ -12 +12 @@";
+
+    const snippets = await collectCodeSnippets(tmpDir, toolCalls, {
+      diff,
+      conversation: "Why does refundPolicy return a brace?",
+    });
+
+    expect(snippets.map(s => [s.file, s.start, s.end, s.name, s.edited, s.touches])).toEqual([
+      ["src/billing.ts", 11, 14, "charge", true, 2],
+      ["src/billing.ts", 17, 19, "refundPolicy", false, 2],
+      ["src/policy.ts", 17, 19, "refundPolicy", false, 1],
+    ]);
+    expect(snippets[0].content).toBe(
+      "--- src/billing.ts:11-14 (charge, edited) ---\n" + SOURCE.split("\n").slice(10, 14).join("\n")
+    );
+    expect(snippets.map(s => s.content).join("\n")).not.toContain("Copyright header");
+
+    // Highest-touch snippets win when the budget is tight
+    const budget = estimateTokens(snippets[0].content);
+    expect(fitSnippets([...snippets].reverse(), budget).map(s => s.name)).toEqual(["charge"]);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
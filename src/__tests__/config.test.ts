@@ -0,0 +1,39 @@
+import { test, expect } from "bun:test";
+import { join } from "path";
+import { mkdtemp, mkdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { writeTextFile } from "../utils/fs-compat";
+import { loadConfig } from "../config";
+
+test("loadConfig() adds configured denyPaths to the defaults", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-config-"));
+  const xdgConfigHome = process.env.XDG_CONFIG_HOME;
+  process.env.XDG_CONFIG_HOME = join(tmpDir, "config");
+
+  try {
+    await mkdir(join(tmpDir, "config", "opencode"), { recursive: true });
+    await writeTextFile(join(tmpDir, "config", "opencode", "smart-codebase.json"), JSON.stringify({
+      redaction: { denyPaths: ["**/secrets.yml"] },
+    }));
+    await mkdir(join(tmpDir, "project", ".opencode"), { recursive: true });
+    await writeTextFile(join(tmpDir, "project", ".opencode", "smart-codebase.json"), JSON.stringify({
+      redaction: { denyPaths: ["config/prod/**", "**/*.pem"] },
+    }));
+
+    expect(loadConfig().redaction?.denyPaths).toEqual([
+      "**/.env*", "**/*.pem", "**/*.key", "**/id_rsa*", "**/secrets.yml",
+    ]);
+    expect(loadConfig(join(tmpDir, "project")).redaction).toEqual({
+      enabled: true,
+      patterns: [],
+      denyPaths: ["**/.env*", "**/*.pem", "**/*.key", "**/id_rsa*", "**/secrets.yml", "config/prod/**"],
+    });
+  } finally {
+    if (xdgConfigHome === undefined) {
+      delete process.env.XDG_CONFIG_HOME;
+    } else {
+      process.env.XDG_CONFIG_HOME = xdgConfigHome;
+    }
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
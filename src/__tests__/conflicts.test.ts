@@ -0,0 +1,90 @@
+import { test, expect } from "bun:test";
+import { join } from "path";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { readTextFile } from "../utils/fs-compat";
+import { writeModuleSkill, getConflictId, parseModuleSkill } from "../storage/knowledge-writer";
+import { listConflicts, resolveConflict } from "../storage/conflicts";
+
+async function writePaymentsSkill(tmpDir: string): Promise<string> {
+  return writeModuleSkill(tmpDir, "src/payments", {
+    metadata: { name: "src-payments", description: "Payments" },
+    sections: [{ heading: "Amounts", content: "Amounts are stored as cents.\nCurrency is ISO 4217." }],
+    conflicts: [
+      {
+        id: getConflictId("Amounts", "Amounts are stored as cents.", "Amounts are Decimal."),
+        section: "Amounts",
+        existing: "Amounts are stored as cents.",
+        proposed: "Amounts are Decimal.",
+        evidence: "migration 042 changed the column type",
+      },
+      {
+        id: getConflictId("Refunds", "Refunds are async", "Refunds are sync"),
+        section: "Refunds",
+        existing: "Refunds are async",
+        proposed: "Refunds are sync",
+      },
+    ],
+  });
+}
+
+test("conflicts are stored in the module skill and listed", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-conflicts-"));
+
+  try {
+    const skillPath = await writePaymentsSkill(tmpDir);
+    const content = await readTextFile(skillPath);
+    expect(content).toContain("## Conflicts");
+    expect(content).toContain("- **Evidence**: migration 042 changed the column type");
+    expect(parseModuleSkill(content).sections.map(s => s.heading)).toEqual(["Amounts"]);
+
+    const entries = await listConflicts(tmpDir);
+    expect(entries.map(e => [e.skill, e.conflict.section])).toEqual([
+      ["src-payments", "Amounts"],
+      ["src-payments", "Refunds"],
+    ]);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("resolving a conflict rewrites the claim or just drops the record", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-conflicts-"));
+
+  try {
+    const skillPath = await writePaymentsSkill(tmpDir);
+    const [amounts, refunds] = (await listConflicts(tmpDir)).map(e => e.conflict);
+
+    await resolveConflict(tmpDir, amounts.id, "proposed");
+    await resolveConflict(tmpDir, refunds.id, "existing");
+
+    const skill = parseModuleSkill(await readTextFile(skillPath));
+    expect(skill.sections).toEqual([{ heading: "Amounts", content: "Amounts are Decimal.\nCurrency is ISO 4217." }]);
+    expect(skill.conflicts).toBeUndefined();
+    expect(await listConflicts(tmpDir)).toEqual([]);
+
+    await expect(resolveConflict(tmpDir, amounts.id, "existing")).rejects.toThrow(`No conflict with id "${amounts.id}"`);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("keeping a proposed claim with $ patterns inserts it verbatim", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-conflicts-"));
+  const existing = "Deploy with `./deploy.sh`.";
+  const proposed = "Deploy with `./deploy.sh \"$1\" $$ $&` and `${env}`.";
+
+  try {
+    const skillPath = await writeModuleSkill(tmpDir, "scripts", {
+      metadata: { name: "scripts", description: "Scripts" },
+      sections: [{ heading: "Deploy", content: existing }],
+      conflicts: [{ id: getConflictId("Deploy", existing, proposed), section: "Deploy", existing, proposed }],
+    });
+
+    await resolveConflict(tmpDir, getConflictId("Deploy", existing, proposed), "proposed");
+
+    expect(parseModuleSkill(await readTextFile(skillPath)).sections[0].content).toBe(proposed);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,49 @@
+import { test, expect } from "bun:test";
+import { createToolCallRecord, extractErrorExcerpt } from "../preprocessing/tool-calls";
+import { detectDebuggingArcs, formatDebuggingArcs } from "../preprocessing/debugging-arcs";
+
+const ROOT = "/project";
+
+function run(command: string, exit: number, output = "") {
+  return createToolCallRecord("bash", { command }, { title: command, output, metadata: { exit } }, ROOT);
+}
+
+function edit(filePath: string) {
+  return createToolCallRecord("edit", { filePath }, { title: filePath }, ROOT);
+}
+
+test("extractErrorExcerpt() keeps error lines and falls back to the tail", () => {
+  const output = "bun test v1.2\nsrc/a.test.ts:\n(fail) parses amounts\nerror: expect(received).toBe(expected)\n1 pass\n1 fail";
+  expect(extractErrorExcerpt(output)).toBe("(fail) parses amounts\nerror: expect(received).toBe(expected)\n1 fail");
+  expect(extractErrorExcerpt("line 1\nline 2")).toBe("line 1\nline 2");
+  expect(extractErrorExcerpt("\n\n")).toBeUndefined();
+});
+
+test("detectDebuggingArcs() pairs a failing command with its passing rerun", () => {
+  const calls = [
+    run("bun  test", 1, "error: Cannot find module './money'"),
+    edit("src/payments/charge.ts"),
+    run("bun test", 1, "error: expected 100 but got 1"),
+    edit("src/payments/money.ts"),
+    run("bun test", 0),
+    // Flaky: passes again without an edit, so not an arc
+    run("npm run lint", 1, "warning"),
+    run("npm run lint", 0),
+  ];
+
+  const arcs = detectDebuggingArcs(calls);
+  expect(arcs).toEqual([{
+    command: "bun test",
+    failures: 2,
+    exitCode: 1,
+    error: "error: expected 100 but got 1",
+    fixedFiles: ["src/payments/charge.ts", "src/payments/money.ts"],
+  }]);
+
+  expect(formatDebuggingArcs(arcs)).toBe([
+    "1. Problem: `bun test` failed 2 times (exit 1)",
+    "   Error:\n     error: expected 100 but got 1",
+    "   Fix: edited src/payments/charge.ts, src/payments/money.ts",
+    "   Result: `bun test` passed",
+  ].join("\n"));
+});
@@ -0,0 +1,122 @@
+import { test, expect } from "bun:test";
+import { join } from "path";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { fileExists, readTextFile } from "../utils/fs-compat";
+import { getStateDir } from "../storage/state-dir";
+import {
+  readJournal,
+  appendToolCall,
+  scheduleExtractionJob,
+  markExtractionRunning,
+  recordExtractionFailure,
+  clearJournalSession,
+  computeRetryDelay,
+  MAX_EXTRACTION_RETRIES,
+} from "../storage/extraction-journal";
+import { restoreExtractionJournal } from "../hooks/knowledge-extractor";
+
+test("journal persists tool calls and jobs to disk", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-journal-"));
+
+  try {
+    await appendToolCall(tmpDir, "s1", { tool: "edit", target: "src/a.ts", timestamp: 1 });
+    await appendToolCall(tmpDir, "s1", { tool: "read", target: "src/b.ts", timestamp: 2 });
+    await scheduleExtractionJob(tmpDir, "s1", 1234);
+
+    const journal = await readJournal(tmpDir);
+    expect(journal.sessions.s1.toolCalls.map(tc => tc.target)).toEqual(["src/a.ts", "src/b.ts"]);
+    expect(journal.sessions.s1.job).toMatchObject({ status: "pending", runAt: 1234, attempts: 0 });
+
+    const stateDir = await getStateDir(tmpDir);
+    expect(await readTextFile(join(stateDir, ".gitignore"))).toBe("*\n");
+    expect(await fileExists(join(stateDir, "extraction-journal.json"))).toBe(true);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("concurrent journal updates are not lost", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-journal-"));
+
+  try {
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        appendToolCall(tmpDir, "s1", { tool: "edit", target: `src/${i}.ts`, timestamp: i })
+      )
+    );
+
+    const journal = await readJournal(tmpDir);
+    expect(journal.sessions.s1.toolCalls).toHaveLength(10);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("transient failures back off and stop after the retry limit", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-journal-"));
+
+  try {
+    await scheduleExtractionJob(tmpDir, "s1", Date.now());
+    await markExtractionRunning(tmpDir, "s1");
+
+    const first = await recordExtractionFailure(tmpDir, "s1", "timeout");
+    expect(first?.attempts).toBe(1);
+    expect(first?.status).toBe("pending");
+    expect(first?.lastError).toBe("timeout");
+
+    for (let i = 2; i <= MAX_EXTRACTION_RETRIES; i++) {
+      await recordExtractionFailure(tmpDir, "s1", "timeout");
+    }
+    const exhausted = await recordExtractionFailure(tmpDir, "s1", "timeout");
+    expect(exhausted).toBeUndefined();
+    expect((await readJournal(tmpDir)).sessions.s1.job).toBeUndefined();
+
+    expect(computeRetryDelay(1)).toBe(30_000);
+    expect(computeRetryDelay(2)).toBe(60_000);
+    expect(computeRetryDelay(20)).toBe(30 * 60 * 1000);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("clearJournalSession() forgets the session", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-journal-"));
+
+  try {
+    await appendToolCall(tmpDir, "s1", { tool: "edit", target: "src/a.ts", timestamp: 1 });
+    await clearJournalSession(tmpDir, "s1");
+
+    expect((await readJournal(tmpDir)).sessions).toEqual({});
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("restoreExtractionJournal() offers leftover jobs when autoExtract is off", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-journal-"));
+  const toasts: string[] = [];
+  const ctx: any = {
+    directory: tmpDir,
+    client: {
+      tui: {
+        showToast: async (req: any) => {
+          toasts.push(req.body.message);
+          return { data: true };
+        },
+      },
+    },
+  };
+
+  try {
+    await appendToolCall(tmpDir, "s1", { tool: "edit", target: "src/a.ts", timestamp: 1 });
+    await scheduleExtractionJob(tmpDir, "s1", Date.now());
+
+    const pending = await restoreExtractionJournal(ctx, { enabled: true, autoExtract: false });
+
+    expect(pending).toBe(1);
+    expect(toasts[0]).toContain("/sc-extract");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,150 @@
+import { test, expect } from "bun:test";
+import {
+  formatFrontmatter,
+  parseFrontmatter,
+  stringifyFrontmatterBlock,
+  parseFrontmatterBlock,
+  type Frontmatter,
+  type FrontmatterValue,
+} from "../utils/frontmatter";
+
+/** Small seeded PRNG so failures are reproducible. */
+function createRandom(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (max: number) => Math.floor(next() * max);
+  const pick = <T>(items: T[]): T => items[int(items.length)];
+  return { next, int, pick };
+}
+
+const TRICKY_PIECES = [
+  "a", "Auth", "x", " ", "  ", ": ", ":", "#", " #", "-", "- ", "?", "'", '"', "\\", "\n", "\n\n", "\t", "\r",
+  "[", "]", "{", "}", ",", "|", ">", "&", "*", "!", "%", "@", "`", "---", "...", "true", "null", "~", "42",
+  "3.14", "0x1F", "1e5", "yes", "认证", "模块", "é", "😀", "\u2028", "\u0085", "\ufeff", "\u0000", "Use when: ",
+];
+
+function randomString(random: ReturnType<typeof createRandom>): string {
+  const length = random.int(6);
+  let text = "";
+  for (let i = 0; i < length; i++) text += random.pick(TRICKY_PIECES);
+  return text;
+}
+
+function randomValue(random: ReturnType<typeof createRandom>, depth: number): FrontmatterValue {
+  const kind = random.int(depth > 2 ? 4 : 7);
+  switch (kind) {
+    case 0: return randomString(random);
+    case 1: return random.pick([0, 1, -7, 42, 3.5, -0.25, 1e21, 123456789]);
+    case 2: return random.pick([true, false, null]);
+    case 3: return randomString(random);
+    case 4: return Array.from({ length: random.int(4) }, () => randomValue(random, depth + 1));
+    default: return randomMapping(random, depth + 1);
+  }
+}
+
+function randomMapping(random: ReturnType<typeof createRandom>, depth: number): Frontmatter {
+  const data: Frontmatter = {};
+  const keys = random.int(5);
+  for (let i = 0; i < keys; i++) {
+    // Integer-like keys would be reordered by JavaScript objects, not by the codec
+    const key = random.next() < 0.7 ? random.pick(["name", "description", "usage", "tags", "owner", "x-custom", "created_at"]) : `k${randomString(random)}`;
+    data[key] = randomValue(random, depth);
+  }
+  return data;
+}
+
+test("frontmatter round-trips random data, including key order", () => {
+  const random = createRandom(20260101);
+
+  for (let i = 0; i < 500; i++) {
+    const data = randomMapping(random, 0);
+    const serialized = formatFrontmatter(data, "\n# Body\n");
+    let parsed;
+    try {
+      parsed = parseFrontmatter(serialized);
+    } catch (error) {
+      throw new Error(`Case ${i} failed to parse:\n${serialized}\n${error}`);
+    }
+
+    expect({ case: i, data: parsed.data }).toEqual({ case: i, data });
+    expect(Object.keys(parsed.data)).toEqual(Object.keys(data));
+    expect(parsed.body).toBe("\n# Body\n");
+    // Serializing again is stable
+    expect(stringifyFrontmatterBlock(parsed.data)).toBe(stringifyFrontmatterBlock(data));
+  }
+});
+
+test("descriptions with colons, hashes and newlines stay intact", () => {
+  const data = {
+    name: "src-auth",
+    description: "Auth: JWT tokens. Use when: touching login",
+    summary: "# not a comment",
+    notes: "line one\nline two\n",
+  };
+  const serialized = formatFrontmatter(data, "");
+
+  expect(serialized).toBe([
+    "---",
+    "name: src-auth",
+    'description: "Auth: JWT tokens. Use when: touching login"',
+    'summary: "# not a comment"',
+    "notes: |",
+    "  line one",
+    "  line two",
+    "---",
+    "",
+  ].join("\n"));
+  expect(parseFrontmatter(serialized).data).toEqual(data);
+});
+
+test("parseFrontmatter() reads hand-written YAML", () => {
+  const content = `---
+name: src-auth   # trailing comment
+legacy: Auth: JWT tokens, written unquoted by older versions
+description: >
+  Handles login
+  and sessions.
+
+  Use when touching auth.
+tags: [convention, gotcha]
+owners:
+  - alice
+  - name: bob
+    role: reviewer
+quoted: 'it''s'
+escaped: "tab\\there"
+usage:
+  created_at: 2026-01-01T00:00:00.000Z
+  access_count: 3
+empty:
+---
+
+# Body`;
+
+  const { data, body, hasFrontmatter } = parseFrontmatter(content);
+  expect(hasFrontmatter).toBe(true);
+  expect(body).toBe("\n# Body");
+  expect(data).toEqual({
+    name: "src-auth",
+    legacy: "Auth: JWT tokens, written unquoted by older versions",
+    description: "Handles login and sessions.\nUse when touching auth.\n",
+    tags: ["convention", "gotcha"],
+    owners: ["alice", { name: "bob", role: "reviewer" }],
+    quoted: "it's",
+    escaped: "tab\there",
+    usage: { created_at: "2026-01-01T00:00:00.000Z", access_count: 3 },
+    empty: null,
+  });
+});
+
+test("parseFrontmatter() leaves files without frontmatter alone and rejects malformed blocks", () => {
+  expect(parseFrontmatter("# Title\n")).toEqual({ data: {}, body: "# Title\n", hasFrontmatter: false });
+  expect(parseFrontmatter("---\n---\nbody")).toEqual({ data: {}, body: "body", hasFrontmatter: true });
+  expect(() => parseFrontmatterBlock("name: a\n    oops: b")).toThrow();
+  expect(() => parseFrontmatterBlock('name: "unterminated')).toThrow();
+});
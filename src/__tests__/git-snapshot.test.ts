@@ -0,0 +1,77 @@
+import { test, expect } from "bun:test";
+import { join } from "path";
+import { mkdtemp, rm, mkdir } from "fs/promises";
+import { tmpdir } from "os";
+import { exec } from "child_process";
+import { promisify } from "util";
+import { removeFile, writeTextFile } from "../utils/fs-compat";
+import { snapshotWorkingTree } from "../utils/git";
+
+const execAsync = promisify(exec);
+
+async function git(cwd: string, command: string): Promise<string> {
+  const { stdout } = await execAsync(`git ${command}`, { cwd });
+  return stdout.trim();
+}
+
+async function initRepo(dir: string): Promise<void> {
+  await git(dir, "init -q");
+  await git(dir, "config user.email 'test@example.com'");
+  await git(dir, "config user.name 'Test User'");
+}
+
+test("snapshotWorkingTree() records the working tree without touching the real index", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-snapshot-"));
+
+  try {
+    await initRepo(tmpDir);
+    await mkdir(join(tmpDir, "src"), { recursive: true });
+    await writeTextFile(join(tmpDir, ".gitignore"), "*.log\n");
+    await writeTextFile(join(tmpDir, "src", "kept.ts"), "export const kept = 1;\n");
+    await writeTextFile(join(tmpDir, "src", "edited.ts"), "export const v = 1;\n");
+    await writeTextFile(join(tmpDir, "src", "deleted.ts"), "export const gone = 1;\n");
+    await git(tmpDir, "add -A");
+    await git(tmpDir, "commit -q -m init");
+
+    await writeTextFile(join(tmpDir, "src", "edited.ts"), "export const v = 2;\n");
+    await removeFile(join(tmpDir, "src", "deleted.ts"));
+    await writeTextFile(join(tmpDir, "src", "new.ts"), "export const fresh = 1;\n");
+    await writeTextFile(join(tmpDir, "debug.log"), "noise\n");
+    // Staged, then removed from disk: the snapshot follows the disk, not the index
+    await writeTextFile(join(tmpDir, "src", "staged.ts"), "export const staged = 1;\n");
+    await git(tmpDir, "add src/staged.ts");
+    await removeFile(join(tmpDir, "src", "staged.ts"));
+
+    const statusBefore = await git(tmpDir, "status --porcelain");
+    const tree = await snapshotWorkingTree(join(tmpDir, "src"));
+
+    expect(tree).toMatch(/^[0-9a-f]{40}$/);
+    expect((await git(tmpDir, `ls-tree -r --name-only ${tree}`)).split("\n")).toEqual([
+      ".gitignore",
+      "src/edited.ts",
+      "src/kept.ts",
+      "src/new.ts",
+    ]);
+    expect(await git(tmpDir, `show ${tree}:src/edited.ts`)).toBe("export const v = 2;");
+    expect(await git(tmpDir, "status --porcelain")).toBe(statusBefore);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("snapshotWorkingTree() works before the first commit and outside git", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-snapshot-"));
+
+  try {
+    expect(await snapshotWorkingTree(tmpDir)).toBeNull();
+
+    await initRepo(tmpDir);
+    await writeTextFile(join(tmpDir, "a.ts"), "export const a = 1;\n");
+    const tree = await snapshotWorkingTree(tmpDir);
+
+    expect(await git(tmpDir, `ls-tree -r --name-only ${tree}`)).toBe("a.ts");
+    expect(await git(tmpDir, "status --porcelain")).toBe("?? a.ts");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
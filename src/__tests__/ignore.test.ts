@@ -0,0 +1,47 @@
+import { test, expect } from "bun:test";
+import { join } from "path";
+import { mkdir, mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { writeTextFile } from "../utils/fs-compat";
+import { createIgnoreMatcher, loadIgnoreMatcher, parseIgnoreFile } from "../utils/ignore";
+
+test("parseIgnoreFile() skips comments and blank lines", () => {
+  const content = "# generated\nsrc/generated/\n\n  \n*.snap   \n\\#literal\n!keep.snap\n";
+  expect(parseIgnoreFile(content)).toEqual(["src/generated/", "*.snap", "#literal", "!keep.snap"]);
+});
+
+test("createIgnoreMatcher() lets the last matching rule win", () => {
+  const isIgnored = createIgnoreMatcher(["/fixtures/", "!fixtures/schema.json", "*.snap"], "/project");
+
+  expect(isIgnored("test/fixtures/orders.json")).toBe(false);
+  expect(isIgnored("fixtures/orders.json")).toBe(true);
+  expect(isIgnored("fixtures/schema.json")).toBe(false);
+  expect(isIgnored("/project/src/__snapshots__/a.snap")).toBe(true);
+  expect(isIgnored("src/app.ts")).toBe(false);
+  // Outside the project
+  expect(isIgnored("/elsewhere/fixtures/orders.json")).toBe(false);
+});
+
+test("loadIgnoreMatcher() combines defaults, the ignore file and config rules", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-ignore-"));
+
+  try {
+    expect(loadIgnoreMatcher(tmpDir)("node_modules/zod/index.js")).toBe(true);
+    expect(loadIgnoreMatcher(tmpDir)("src/secrets/keys.ts")).toBe(false);
+    expect(loadIgnoreMatcher(tmpDir)("packages/web/node_modules/react/index.js")).toBe(true);
+    expect(loadIgnoreMatcher(tmpDir)("build/app.js")).toBe(true);
+    // Source directories named like build outputs are only ignored at the root
+    expect(loadIgnoreMatcher(tmpDir)("src/build/foo.ts")).toBe(false);
+    expect(loadIgnoreMatcher(tmpDir)("packages/x/output/format.ts")).toBe(false);
+
+    await mkdir(join(tmpDir, ".opencode"));
+    await writeTextFile(join(tmpDir, ".opencode", "smart-codebase-ignore"), "src/secrets/\n");
+    const isIgnored = loadIgnoreMatcher(tmpDir, ["!vendor/acme/"]);
+
+    expect(isIgnored("src/secrets/keys.ts")).toBe(true);
+    expect(isIgnored("vendor/other/lib.js")).toBe(true);
+    expect(isIgnored("vendor/acme/lib.js")).toBe(false);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,649 @@
+import { test, expect } from "bun:test";
+import { join } from "path";
+import { mkdtemp, rm, mkdir } from "fs/promises";
+import { tmpdir } from "os";
+import { exec } from "child_process";
+import { promisify } from "util";
+import { fileExists, readTextFile, writeTextFile } from "../utils/fs-compat";
+import { getProjectSkillName } from "../storage/knowledge-writer";
+import {
+  createKnowledgeExtractorHook,
+  extractKnowledge,
+  groupFilesByModule,
+} from "../hooks/knowledge-extractor";
+import { displayExtractionResult } from "../display/feedback";
+import { undoLastExtraction } from "../storage/undo-journal";
+import { migrateLegacySkills } from "../storage/legacy-migration";
+import { readJournal, scheduleExtractionJob } from "../storage/extraction-journal";
+
+const execAsync = promisify(exec);
+
+/**
+ * Builds a minimal PluginInput whose client answers every extraction prompt
+ * with the next queued reply. `messages` is read live, so tests can append turns.
+ */
+function createMockPluginInput(tmpDir: string, replies: string[], messages: any[] = []): any {
+  const prompts: any[] = [];
+  return {
+    directory: tmpDir,
+    worktree: tmpDir,
+    prompts,
+    client: {
+      session: {
+        get: async () => ({ data: {} }),
+        create: async () => ({ data: { id: "extraction-session" } }),
+        delete: async () => ({ data: true }),
+        messages: async () => ({ data: [...messages] }),
+        prompt: async (req: any) => {
+          prompts.push(req);
+          const text = replies.shift() ?? '{"skills": []}';
+          return { data: { parts: [{ type: "text", text }] } };
+        },
+      },
+      tui: {
+        showToast: async () => ({ data: true }),
+      },
+    },
+  };
+}
+
+function userMessage(text: string): any {
+  return { info: { role: "user" }, parts: [{ type: "text", text }] };
+}
+
+async function initRepo(dir: string): Promise<void> {
+  await execAsync("git init -q", { cwd: dir });
+  await execAsync("git config user.email 'test@example.com'", { cwd: dir });
+  await execAsync("git config user.name 'Test User'", { cwd: dir });
+  await execAsync("git commit -q --allow-empty -m init", { cwd: dir });
+}
+
+async function trackEdits(ctx: any, sessionID: string, files: string[]): Promise<void> {
+  const hook = createKnowledgeExtractorHook(ctx);
+  for (const file of files) {
+    await hook["tool.execute.after"](
+      { tool: "edit", sessionID, callID: file, args: { filePath: file } } as any,
+      { title: file, output: "", metadata: {} } as any
+    );
+  }
+}
+
+test("groupFilesByModule() groups files by owning module", () => {
+  const groups = groupFilesByModule(
+    ["src/auth/login.ts", "src/api/routes.ts", "src/auth/session.ts", "packages/db/index.ts"],
+    "/project"
+  );
+
+  expect(Array.from(groups.keys())).toEqual(["src/auth", "src/api", "packages/db"]);
+  expect(groups.get("src/auth")).toEqual(["src/auth/login.ts", "src/auth/session.ts"]);
+});
+
+test("extractKnowledge() writes one skill per touched module", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const reply = JSON.stringify({
+    skills: [
+      {
+        modulePath: "src/auth",
+        name: "src-auth",
+        description: "Auth module. Use when touching login.",
+        sections: [{ heading: "Tokens", content: "JWT with 15min expiry" }],
+        relatedFiles: ["src/auth/login.ts"],
+      },
+      {
+        modulePath: "packages/db",
+        name: "packages-db",
+        description: "DB access. Use when writing queries.",
+        sections: [
+          { heading: "Queries", content: "Use prepared statements" },
+          { heading: "Pooling", content: "Pool size 10" },
+        ],
+        relatedFiles: ["packages/db/index.ts"],
+      },
+    ],
+  });
+  const ctx = createMockPluginInput(tmpDir, [reply]);
+
+  try {
+    await trackEdits(ctx, "multi-module", ["src/auth/login.ts", "packages/db/index.ts"]);
+    const result = await extractKnowledge(ctx, "multi-module");
+
+    expect(result.modulesUpdated).toBe(2);
+    expect(result.sectionsAdded).toBe(3);
+    expect(result.indexUpdated).toBe(true);
+    expect(result.modules.map(m => [m.modulePath, m.sectionsAdded])).toEqual([
+      ["src/auth", 1],
+      ["packages/db", 2],
+    ]);
+
+    const projectName = await getProjectSkillName(tmpDir);
+    const skillDir = join(tmpDir, ".opencode", "skills", projectName);
+    expect(await fileExists(join(skillDir, "modules", "src-auth.md"))).toBe(true);
+    expect(await fileExists(join(skillDir, "modules", "packages-db.md"))).toBe(true);
+
+    const index = await readTextFile(join(skillDir, "SKILL.md"));
+    expect(index).toContain("### src-auth");
+    expect(index).toContain("### packages-db");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("extractKnowledge() re-prompts with validation errors and recovers", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const invalid = JSON.stringify({
+    skills: [{ modulePath: "src/auth", name: "Src Auth", description: "Auth", sections: [] }],
+  });
+  const valid = "Here is the fixed JSON:\n```json\n" + JSON.stringify({
+    skills: [{ modulePath: "src/auth", name: "src-auth", description: "Auth", sections: [] }],
+  }) + "\n```";
+  const ctx = createMockPluginInput(tmpDir, [invalid, valid]);
+
+  try {
+    await trackEdits(ctx, "repair", ["src/auth/login.ts"]);
+    const result = await extractKnowledge(ctx, "repair", { enabled: true, extractionMaxAttempts: 2 });
+
+    expect(ctx.prompts).toHaveLength(2);
+    expect(ctx.prompts[1].path.id).toBe(ctx.prompts[0].path.id);
+    expect(ctx.prompts[1].body.parts[0].text).toContain("skills[0].name");
+    expect(result.modulesUpdated).toBe(1);
+    expect(result.validationErrors).toBeUndefined();
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("extractKnowledge() reports validation errors after the last attempt", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const ctx = createMockPluginInput(tmpDir, ["not json", "still not json"]);
+
+  try {
+    await trackEdits(ctx, "give-up", ["src/auth/login.ts"]);
+    const result = await extractKnowledge(ctx, "give-up", { enabled: true, extractionMaxAttempts: 2 });
+
+    expect(ctx.prompts).toHaveLength(2);
+    expect(result.modulesUpdated).toBe(0);
+    expect(result.validationErrors).toEqual(["reply: no JSON object found"]);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("extractKnowledge() only sends new turns and changes on later runs", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const reply = (content: string) => JSON.stringify({
+    skills: [{ modulePath: "src/auth", name: "src-auth", description: "Auth", sections: [{ heading: "Notes", content }] }],
+  });
+  const messages = [userMessage("first turn about tokens")];
+  const ctx = createMockPluginInput(tmpDir, [reply("Tokens expire in 15min"), reply("Refresh rotates")], messages);
+
+  try {
+    await initRepo(tmpDir);
+    await mkdir(join(tmpDir, "src", "auth"), { recursive: true });
+
+    await writeTextFile(join(tmpDir, "src", "auth", "login.ts"), "export const ttl = 15;\n");
+    await trackEdits(ctx, "incremental", ["src/auth/login.ts"]);
+    await extractKnowledge(ctx, "incremental");
+
+    messages.push(userMessage("second turn about refresh"));
+    await writeTextFile(join(tmpDir, "src", "auth", "refresh.ts"), "export const rotate = true;\n");
+    await trackEdits(ctx, "incremental", ["src/auth/refresh.ts"]);
+    await extractKnowledge(ctx, "incremental");
+
+    const [first, second] = ctx.prompts.map((p: any) => p.body.system as string);
+    expect(first).toContain("first turn about tokens");
+    expect(first).not.toContain("INCREMENTAL EXTRACTION");
+
+    expect(second).toContain("INCREMENTAL EXTRACTION");
+    expect(second).toContain("[2] User\nsecond turn about refresh");
+    expect(second).not.toContain("first turn about tokens");
+    expect(second).toContain("rotate = true");
+    expect(second).not.toContain("ttl = 15");
+    // Earlier knowledge is still offered as the merge base
+    expect(second).toContain("Tokens expire in 15min");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("extractKnowledge() advances the watermark when nothing is extracted", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const messages = [userMessage("first turn, nothing worth keeping")];
+  const ctx = createMockPluginInput(tmpDir, ['{"skills": []}', '{"skills": []}'], messages);
+
+  try {
+    await trackEdits(ctx, "empty", ["src/auth/login.ts"]);
+    await scheduleExtractionJob(tmpDir, "empty", Date.now());
+    const result = await extractKnowledge(ctx, "empty");
+    expect(result.modulesUpdated).toBe(0);
+
+    const journal = await readJournal(tmpDir);
+    expect(journal.sessions.empty.watermark?.messageIndex).toBe(1);
+    expect(journal.sessions.empty.job).toBeUndefined();
+    expect(journal.sessions.empty.toolCalls).toEqual([]);
+
+    messages.push(userMessage("second turn about refresh"));
+    await trackEdits(ctx, "empty", ["src/auth/refresh.ts"]);
+    await extractKnowledge(ctx, "empty");
+
+    const second = ctx.prompts[1].body.system as string;
+    expect(second).toContain("INCREMENTAL EXTRACTION");
+    expect(second).not.toContain("first turn, nothing worth keeping");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("extractKnowledge() keeps tool calls tracked while the model was answering", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const ctx = createMockPluginInput(tmpDir, ['{"skills": []}', '{"skills": []}']);
+  const prompt = ctx.client.session.prompt;
+  let inFlight = true;
+  ctx.client.session.prompt = async (req: any) => {
+    if (inFlight) {
+      inFlight = false;
+      await trackEdits(ctx, "in-flight", ["src/api/late.ts"]);
+    }
+    return prompt(req);
+  };
+
+  try {
+    await trackEdits(ctx, "in-flight", ["src/auth/login.ts"]);
+    await scheduleExtractionJob(tmpDir, "in-flight", Date.now());
+    await extractKnowledge(ctx, "in-flight");
+
+    const journal = await readJournal(tmpDir);
+    expect(journal.sessions["in-flight"].toolCalls.map(tc => tc.filePath)).toEqual(["src/api/late.ts"]);
+    expect(journal.sessions["in-flight"].job).toBeDefined();
+
+    await extractKnowledge(ctx, "in-flight");
+    const second = ctx.prompts[1].body.system as string;
+    expect(second).toContain("src/api/late.ts");
+    expect(second).not.toContain("src/auth/login.ts");
+    expect((await readJournal(tmpDir)).sessions["in-flight"].toolCalls).toEqual([]);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("extractKnowledge() merges by section and only drops sections marked removed", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const first = JSON.stringify({
+    skills: [{
+      modulePath: "src/auth",
+      name: "src-auth",
+      description: "Auth",
+      sections: [
+        { heading: "Tokens", content: "JWT with 15min expiry" },
+        { heading: "Sessions", content: "Sessions live in Redis" },
+        { heading: "Legacy", content: "Basic auth fallback" },
+      ],
+      relatedFiles: ["src/auth/login.ts"],
+    }],
+  });
+  const second = JSON.stringify({
+    skills: [{
+      modulePath: "src/auth",
+      name: "src-auth",
+      description: "Auth",
+      sections: [
+        { heading: "Tokens", content: "JWT with 5min expiry" },
+        { heading: "Refresh", content: "Refresh tokens rotate" },
+      ],
+      relatedFiles: ["src/auth/refresh.ts"],
+      removedSections: ["Legacy"],
+    }],
+  });
+  const ctx = createMockPluginInput(tmpDir, [first, second]);
+
+  try {
+    await trackEdits(ctx, "merge", ["src/auth/login.ts"]);
+    await extractKnowledge(ctx, "merge");
+    await trackEdits(ctx, "merge", ["src/auth/refresh.ts"]);
+    const result = await extractKnowledge(ctx, "merge");
+
+    expect(result.modules[0].changes).toEqual({ added: ["Refresh"], updated: ["Tokens"], removed: ["Legacy"], conflicts: [] });
+    expect(displayExtractionResult(result)).toContain("1 sections added, 1 updated, 1 removed");
+
+    const written = await readTextFile(join(tmpDir, ".opencode", "skills", await getProjectSkillName(tmpDir), "modules", "src-auth.md"));
+    expect(written).toContain("JWT with 5min expiry");
+    expect(written).toContain("## Sessions");
+    expect(written).not.toContain("## Legacy");
+    expect(written).toContain("src/auth/login.ts");
+    expect(written).toContain("src/auth/refresh.ts");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("extractKnowledge() sends pinned sections as read-only context", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const ctx = createMockPluginInput(tmpDir, ['{"skills": []}']);
+
+  try {
+    const skillPath = join(tmpDir, ".opencode", "skills", await getProjectSkillName(tmpDir), "modules", "src-auth.md");
+    await mkdir(join(skillPath, ".."), { recursive: true });
+    await writeTextFile(skillPath, "---\nname: src-auth\ndescription: Auth\n---\n\n## SSO\n<!-- pinned -->\nOkta only, ask #infra\n");
+
+    await trackEdits(ctx, "pinned", ["src/auth/login.ts"]);
+    await extractKnowledge(ctx, "pinned");
+
+    const system = ctx.prompts[0].body.system as string;
+    expect(system).toContain("PINNED SECTIONS (human-authored, READ-ONLY context)");
+    expect(system).toContain('Module "src/auth":\n## SSO\n<!-- pinned -->\nOkta only, ask #infra');
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("a second extraction keeps what the first one wrote", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const reply = (heading: string, content: string) => JSON.stringify({
+    skills: [{ modulePath: "src/auth", name: "src-auth", description: "Auth", sections: [{ heading, content }] }],
+  });
+  const ctx = createMockPluginInput(tmpDir, [reply("Tokens", "JWT with 15min expiry"), reply("Refresh", "Refresh rotates")]);
+
+  try {
+    await trackEdits(ctx, "first-session", ["src/auth/login.ts"]);
+    await extractKnowledge(ctx, "first-session");
+
+    const projectDir = join(tmpDir, ".opencode", "skills", await getProjectSkillName(tmpDir));
+    expect(await fileExists(join(projectDir, "SKILL.md"))).toBe(true);
+
+    // A different session is a full (non-incremental) extraction
+    await trackEdits(ctx, "second-session", ["src/auth/refresh.ts"]);
+    await extractKnowledge(ctx, "second-session");
+
+    const second = ctx.prompts[1].body.system as string;
+    expect(second).toContain('EXISTING SKILL.md for module "src/auth"');
+    expect(second).toContain("JWT with 15min expiry");
+    expect(second).not.toContain("No existing SKILL.md found");
+
+    const written = await readTextFile(join(projectDir, "modules", "src-auth.md"));
+    expect(written).toContain("## Tokens\n\nJWT with 15min expiry");
+    expect(written).toContain("## Refresh\n\nRefresh rotates");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("a root extraction merges into the migrated root skill", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const reply = JSON.stringify({
+    skills: [{
+      modulePath: ".",
+      name: "project-root",
+      description: "Project-wide conventions",
+      sections: [{ heading: "Releases", content: "Tag releases from main" }],
+    }],
+  });
+  const ctx = createMockPluginInput(tmpDir, [reply]);
+
+  try {
+    await mkdir(join(tmpDir, ".knowledge"), { recursive: true });
+    await writeTextFile(join(tmpDir, ".knowledge", "SKILL.md"), "## Tooling\n\nUse pnpm, not npm\n");
+    await migrateLegacySkills(tmpDir, { deleteLegacy: true });
+    expect(await fileExists(join(tmpDir, ".knowledge"))).toBe(false);
+
+    await trackEdits(ctx, "root", ["package.json"]);
+    const result = await extractKnowledge(ctx, "root");
+
+    const system = ctx.prompts[0].body.system as string;
+    expect(system).toContain('EXISTING SKILL.md for module "."');
+    expect(system).toContain("Use pnpm, not npm");
+    expect(result.modules[0].changes.added).toEqual(["Releases"]);
+
+    const projectDir = join(tmpDir, ".opencode", "skills", await getProjectSkillName(tmpDir));
+    const written = await readTextFile(join(projectDir, "modules", "project-root.md"));
+    expect(written).toContain("## Tooling\n\nUse pnpm, not npm");
+    expect(written).toContain("## Releases\n\nTag releases from main");
+
+    const index = await readTextFile(join(projectDir, "SKILL.md"));
+    expect(index).toContain("### project-root\nProject-wide conventions\n- **Location**: `modules/project-root.md`");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("undoLastExtraction() reverts the session's last extraction, index entries included", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const first = JSON.stringify({
+    skills: [{ modulePath: "src/auth", name: "src-auth", description: "Auth", sections: [{ heading: "Tokens", content: "JWT in cookies" }] }],
+  });
+  const second = JSON.stringify({
+    skills: [
+      { modulePath: "src/auth", name: "src-auth", description: "Auth, wrongly", sections: [{ heading: "Tokens", content: "JWT in localStorage" }] },
+      { modulePath: "src/api", name: "src-api", description: "API", sections: [{ heading: "Routes", content: "REST" }] },
+    ],
+  });
+  const ctx = createMockPluginInput(tmpDir, [first, second]);
+
+  try {
+    await trackEdits(ctx, "undo-session", ["src/auth/login.ts"]);
+    await extractKnowledge(ctx, "undo-session");
+
+    const projectDir = join(tmpDir, ".opencode", "skills", await getProjectSkillName(tmpDir));
+    const authPath = join(projectDir, "modules", "src-auth.md");
+    const before = await readTextFile(authPath);
+    const indexBefore = await readTextFile(join(projectDir, "SKILL.md"));
+
+    await trackEdits(ctx, "undo-session", ["src/auth/login.ts", "src/api/routes.ts"]);
+    await extractKnowledge(ctx, "undo-session");
+    expect(await fileExists(join(projectDir, "modules", "src-api.md"))).toBe(true);
+
+    await expect(undoLastExtraction(tmpDir, "other-session")).rejects.toThrow("No extraction to undo");
+
+    const result = await undoLastExtraction(tmpDir, "undo-session");
+    expect(result.reverted).toEqual(["src/auth"]);
+    expect(result.deleted).toEqual(["src/api"]);
+    expect(result.indexRemoved).toEqual(["src-api"]);
+    expect(result.indexRestored).toEqual(["src-auth"]);
+    expect(result.skipped).toEqual([]);
+
+    expect(await readTextFile(authPath)).toBe(before);
+    expect(await fileExists(join(projectDir, "modules", "src-api.md"))).toBe(false);
+    expect(await readTextFile(join(projectDir, "SKILL.md"))).toBe(indexBefore);
+
+    // The first extraction can be undone next; a hand edit since then is left alone
+    await writeTextFile(authPath, before.replace("JWT in cookies", "edited by hand"));
+    const again = await undoLastExtraction(tmpDir, "undo-session");
+    expect(again.skipped).toEqual(["src/auth"]);
+    expect(await readTextFile(authPath)).toContain("edited by hand");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("undoLastExtraction() keeps index entries apart when one name prefixes another", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const first = JSON.stringify({
+    skills: [{ modulePath: "src/api", name: "src-api", description: "API", sections: [{ heading: "Routes", content: "REST" }] }],
+  });
+  const second = JSON.stringify({
+    skills: [
+      { modulePath: "src/a", name: "src-a", description: "Module a", sections: [{ heading: "Notes", content: "a" }] },
+      { modulePath: "src/api", name: "src-api", description: "API, now GraphQL", sections: [{ heading: "Routes", content: "GraphQL" }] },
+    ],
+  });
+  const ctx = createMockPluginInput(tmpDir, [first, second]);
+
+  try {
+    await trackEdits(ctx, "prefix", ["src/api/routes.ts"]);
+    await extractKnowledge(ctx, "prefix");
+
+    const indexPath = join(tmpDir, ".opencode", "skills", await getProjectSkillName(tmpDir), "SKILL.md");
+    const indexBefore = await readTextFile(indexPath);
+
+    await trackEdits(ctx, "prefix", ["src/a/index.ts", "src/api/routes.ts"]);
+    await extractKnowledge(ctx, "prefix");
+    const index = await readTextFile(indexPath);
+    expect(index).toContain("### src-a\nModule a");
+    expect(index).toContain("### src-api\nAPI, now GraphQL");
+
+    const result = await undoLastExtraction(tmpDir, "prefix");
+    expect(result.indexRemoved).toEqual(["src-a"]);
+    expect(result.indexRestored).toEqual(["src-api"]);
+    expect(await readTextFile(indexPath)).toBe(indexBefore);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("extractKnowledge() records contradictions instead of overwriting", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const skill = (content: string, conflicts: any[] = []) => JSON.stringify({
+    skills: [{
+      modulePath: "src/payments",
+      name: "src-payments",
+      description: "Payments",
+      sections: [{ heading: "Amounts", content }],
+      conflicts,
+    }],
+  });
+  const conflict = { section: "Amounts", existing: "Amounts are stored as cents", proposed: "Amounts are Decimal" };
+  const ctx = createMockPluginInput(tmpDir, [
+    skill("Amounts are stored as cents"),
+    skill("Amounts are stored as cents", [conflict]),
+  ]);
+
+  try {
+    await trackEdits(ctx, "conflict", ["src/payments/charge.ts"]);
+    await extractKnowledge(ctx, "conflict");
+    await trackEdits(ctx, "conflict", ["src/payments/charge.ts"]);
+    const result = await extractKnowledge(ctx, "conflict");
+
+    expect(result.conflictsRecorded).toBe(1);
+    expect(displayExtractionResult(result)).toContain("⚠️ 1 conflict with existing knowledge. Run /sc-conflicts to resolve");
+
+    const written = await readTextFile(join(tmpDir, ".opencode", "skills", await getProjectSkillName(tmpDir), "modules", "src-payments.md"));
+    expect(written).toContain("## Amounts\n\nAmounts are stored as cents");
+    expect(written).toContain("- **Proposed**: Amounts are Decimal");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("extractKnowledge() diffs against the session-start baseline", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const ctx = createMockPluginInput(tmpDir, ['{"skills": []}']);
+
+  try {
+    await initRepo(tmpDir);
+    await mkdir(join(tmpDir, "src", "auth"), { recursive: true });
+    await writeTextFile(join(tmpDir, "src", "auth", "login.ts"), "export const ttl = 15;\n");
+    await execAsync("git add -A && git commit -q -m login", { cwd: tmpDir });
+    // A teammate's unfinished work, already in the tree before the session
+    await writeTextFile(join(tmpDir, "src", "auth", "login.ts"), "export const ttl = 15;\nexport const halfDone = 1;\n");
+    await writeTextFile(join(tmpDir, "src", "auth", "draft.ts"), "export const draft = true;\n");
+
+    const hook = createKnowledgeExtractorHook(ctx);
+    await hook.event({ event: { type: "session.created", properties: { info: { id: "baseline" } } } as any });
+
+    await writeTextFile(join(tmpDir, "src", "auth", "login.ts"), "export const ttl = 5;\nexport const halfDone = 1;\n");
+    await writeTextFile(join(tmpDir, "src", "auth", "refresh.ts"), "export const rotate = true;\n");
+    await execAsync("git add src/auth/refresh.ts && git commit -q -m 'Add refresh rotation'", { cwd: tmpDir });
+    await trackEdits(ctx, "baseline", ["src/auth/login.ts", "src/auth/refresh.ts"]);
+    await extractKnowledge(ctx, "baseline");
+
+    const system = ctx.prompts[0].body.system as string;
+    expect(system).toContain("-export const ttl = 15;");
+    expect(system).toContain("+export const ttl = 5;");
+    expect(system).toContain("+export const rotate = true;");
+    expect(system).toMatch(/Commits made in this session:\n- [0-9a-f]+ Add refresh rotation/);
+    expect(system).not.toContain("+export const halfDone");
+    expect(system).not.toContain("draft");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("the first tool call captures the baseline before the tool runs when session.created was missed", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const ctx = createMockPluginInput(tmpDir, ['{"skills": []}']);
+
+  try {
+    await initRepo(tmpDir);
+    await mkdir(join(tmpDir, "src", "auth"), { recursive: true });
+    await writeTextFile(join(tmpDir, "src", "auth", "login.ts"), "export const ttl = 15;\n");
+    await execAsync("git add -A && git commit -q -m login", { cwd: tmpDir });
+
+    const hook = createKnowledgeExtractorHook(ctx);
+    await hook["tool.execute.before"]({ tool: "edit", sessionID: "missed", callID: "c1" } as any);
+    await writeTextFile(join(tmpDir, "src", "auth", "login.ts"), "export const ttl = 5;\n");
+    await trackEdits(ctx, "missed", ["src/auth/login.ts"]);
+    await extractKnowledge(ctx, "missed");
+
+    const system = ctx.prompts[0].body.system as string;
+    expect(system).toContain("-export const ttl = 15;");
+    expect(system).toContain("+export const ttl = 5;");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("extractKnowledge() summarizes an over-budget conversation in windows before synthesis", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const messages = [
+    userMessage(`early exploration ${"a".repeat(2000)}`),
+    userMessage(`middle debugging ${"b".repeat(2000)}`),
+    userMessage(`final conclusion ${"c".repeat(2000)}`),
+  ];
+  const ctx = createMockPluginInput(tmpDir, [
+    "- NOTE: explored auth",
+    "- FIX: token expiry off by one",
+    "- DECISION: tokens expire after 15min",
+    '{"skills": []}',
+  ], messages);
+
+  try {
+    await trackEdits(ctx, "chunked", ["src/auth/login.ts"]);
+    await extractKnowledge(ctx, "chunked", { enabled: true, extractionMaxTokens: 1000, extractionBudgets: { conversation: 600 } });
+
+    const systems = ctx.prompts.map((p: any) => p.body.system as string);
+    expect(systems).toHaveLength(4);
+    expect(systems[0]).toContain("part 1 of 3");
+    expect(ctx.prompts[2].body.parts[0].text).toContain("final conclusion");
+
+    const synthesis = systems[3];
+    expect(synthesis).toContain("CHUNKED SESSION");
+    expect(synthesis).toContain("### Part 3/3\n- DECISION: tokens expire after 15min");
+    expect(synthesis).not.toContain("c".repeat(2000));
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("ignored paths are not tracked, prompted or listed in skills", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-extractor-"));
+  const reply = JSON.stringify({
+    skills: [{
+      modulePath: "src/api",
+      name: "src-api",
+      description: "API routes. Use when adding endpoints.",
+      sections: [{ heading: "Routes", content: "Routes are generated from the schema" }],
+      relatedFiles: ["src/api/routes.ts", "src/generated/client.ts"],
+    }],
+  });
+  const ctx = createMockPluginInput(tmpDir, [reply]);
+
+  try {
+    await mkdir(join(tmpDir, ".opencode"));
+    await writeTextFile(join(tmpDir, ".opencode", "smart-codebase-ignore"), "# codegen output\nsrc/generated/\n");
+    await trackEdits(ctx, "ignored", ["src/api/routes.ts", "src/generated/client.ts", "dist/app.js", "src/build/foo.ts"]);
+    const result = await extractKnowledge(ctx, "ignored");
+
+    expect(result.modules.map(m => m.modulePath)).toEqual(["src/api"]);
+    const prompt = JSON.stringify(ctx.prompts);
+    expect(prompt).toContain("src/api/routes.ts");
+    // Only the root build/ directory is ignored by default
+    expect(prompt).toContain("src/build/foo.ts");
+    expect(prompt).not.toContain("src/generated/client.ts");
+    expect(prompt).not.toContain("dist/app.js");
+
+    const projectName = await getProjectSkillName(tmpDir);
+    const skill = await readTextFile(join(tmpDir, ".opencode", "skills", projectName, "modules", "src-api.md"));
+    expect(skill).toContain("src/api/routes.ts");
+    expect(skill).not.toContain("src/generated");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
@@ -2,12 +2,15 @@ import { test, expect } from "bun:test";
 import { join } from "path";
 import { mkdtemp, rm } from "fs/promises";
 import { tmpdir } from "os";
-import { fileExists, readTextFile } from "../utils/fs-compat";
+import { fileExists, readTextFile, writeTextFile } from "../utils/fs-compat";
 import {
   writeModuleSkill,
   updateSkillIndex,
   toSkillName,
   getProjectSkillName,
+  formatSkillContent,
+  parseModuleSkill,
+  countSectionKinds,
   type SkillContent,
   type IndexEntry,
 } from "../storage/knowledge-writer";
@@ -313,3 +316,167 @@ test("writeModuleSkill() updates last_updated on subsequent writes", async () =>
     await rm(tmpDir, { recursive: true, force: true });
   }
 });
+
+test("re-writing unchanged knowledge leaves the file byte-identical", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "test-knowledge-"));
+
+  try {
+    const skill: SkillContent = {
+      metadata: { name: "src-api", description: "API patterns" },
+      sections: [
+        { heading: "Errors", content: "Return problem+json" },
+        { heading: "Auth", content: "Bearer tokens only" },
+      ],
+      relatedFiles: ["src/api/errors.ts"],
+    };
+
+    const skillPath = await writeModuleSkill(tmpDir, "src/api", skill);
+    const first = await readTextFile(skillPath);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    // Same knowledge, sections in a different model order
+    await writeModuleSkill(tmpDir, "src/api", { ...skill, sections: [...skill.sections].reverse() });
+
+    expect(await readTextFile(skillPath)).toBe(first);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("formatSkillContent() applies ordering, limits, TOC, code language and table style", () => {
+  const skill: SkillContent = {
+    metadata: { name: "src-db", description: "Database patterns" },
+    sections: [
+      { heading: "Queries", content: "```\nSELECT 1\n```" },
+      { heading: "Migrations", content: "one two three four five six seven eight" },
+      { heading: "Overview", content: "Postgres 16" },
+    ],
+    relatedFiles: ["src/db/pool.ts"],
+  };
+
+  const content = formatSkillContent(skill, undefined, {
+    sectionOrder: "alphabetical",
+    headingOrder: ["overview"],
+    maxSectionLength: 20,
+    tableOfContents: true,
+    codeLanguage: "sql",
+    relatedFilesStyle: "table",
+  });
+
+  const body = content.slice(content.indexOf("**Contents**"));
+  expect(body).toContain("- [Overview](#overview)\n- [Migrations](#migrations)\n- [Queries](#queries)");
+  expect(body.indexOf("## Overview")).toBeLessThan(body.indexOf("## Migrations"));
+  expect(body).toContain("```sql\nSELECT 1\n```");
+  expect(body).toContain("one two three four\n…(truncated)");
+  expect(body).toContain("| `src/db/pool.ts` |");
+
+  const parsed = parseModuleSkill(content);
+  expect(parsed.sections.map(s => s.heading)).toEqual(["Overview", "Migrations", "Queries"]);
+  expect(parsed.relatedFiles).toEqual(["src/db/pool.ts"]);
+
+  const capped = formatSkillContent(skill, undefined, { sectionOrder: "model", maxFileLength: 260 });
+  expect(parseModuleSkill(capped).sections.map(s => s.heading)).toEqual(["Queries"]);
+});
+
+test("pinned sections survive extraction byte-for-byte", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "test-knowledge-"));
+
+  try {
+    const skillPath = await writeModuleSkill(tmpDir, "src/pay", {
+      metadata: { name: "src-pay", description: "Payments" },
+      sections: [{ heading: "Retries", content: "Retry 3 times" }],
+    });
+
+    // A human adds a pinned section with their own formatting
+    const pinned = "## Incident notes <!-- pinned -->\nNever retry *captures*:\n  double charges in 2024-03.";
+    await writeTextFile(skillPath, (await readTextFile(skillPath)).trimEnd() + "\n\n" + pinned + "\n");
+
+    const parsed = parseModuleSkill(await readTextFile(skillPath));
+    expect(parsed.sections.map(s => [s.heading, !!s.pinned])).toEqual([["Retries", false], ["Incident notes", true]]);
+
+    await writeModuleSkill(tmpDir, "src/pay", {
+      metadata: { name: "src-pay", description: "Payments" },
+      sections: [
+        { heading: "Retries", content: "Retry 5 times" },
+        { heading: "Incident notes", content: "model rewrite" },
+      ],
+    }, { removedSections: ["Incident notes"], format: { maxSectionLength: 20 } });
+
+    const written = await readTextFile(skillPath);
+    expect(written).toContain(pinned);
+    expect(written).not.toContain("model rewrite");
+    expect(written).toContain("Retry 5 times");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("section kinds render as badges and tags, round-trip, and are counted in the index", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "test-knowledge-"));
+
+  try {
+    const skillPath = await writeModuleSkill(tmpDir, "src/payments", {
+      metadata: { name: "src-payments", description: "Payments" },
+      sections: [
+        { heading: "Double capture", content: "Never retry captures", kind: "gotcha", severity: "critical" },
+        { heading: "Idempotency", content: "Use idempotency keys", kind: "pattern" },
+        { heading: "Notes", content: "Untyped notes still work" },
+      ],
+    });
+
+    const content = await readTextFile(skillPath);
+    expect(content).toContain("tags: [gotcha, pattern]");
+    expect(content).toContain("## Double capture\n\n> **gotcha** · critical\n\nNever retry captures");
+
+    const parsed = parseModuleSkill(content);
+    expect(parsed.sections).toEqual([
+      { heading: "Double capture", content: "Never retry captures", kind: "gotcha", severity: "critical" },
+      { heading: "Idempotency", content: "Use idempotency keys", kind: "pattern" },
+      { heading: "Notes", content: "Untyped notes still work" },
+    ]);
+
+    await updateSkillIndex(tmpDir, {
+      name: "src-payments",
+      description: "Payments",
+      location: "modules/src-payments.md",
+      kinds: countSectionKinds(parsed.sections),
+    });
+    const index = await readTextFile(join(tmpDir, ".opencode", "skills", await getProjectSkillName(tmpDir), "SKILL.md"));
+    expect(index).toContain("- **Kinds**: 1 gotcha, 1 pattern");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("formatSkillContent() quotes descriptions and keeps unknown frontmatter keys", () => {
+  const existing = `---
+owner: payments-team
+name: src-pay
+description: Payments
+usage:
+  created_at: 2026-01-01T00:00:00.000Z
+  last_updated: 2026-01-02T00:00:00.000Z
+  access_count: 7
+---
+
+## Refunds
+Refund within 30 days
+`;
+  const skill: SkillContent = {
+    metadata: { name: "src-pay", description: "# Payments: charges and refunds.\nUse when: touching money" },
+    sections: [{ heading: "Refunds", content: "Refund within 30 days" }],
+  };
+
+  const content = formatSkillContent(skill, existing);
+
+  expect(content.split("\n").slice(0, 4)).toEqual([
+    "---",
+    "owner: payments-team",
+    "name: src-pay",
+    "description: |-",
+  ]);
+  expect(content).toContain("  access_count: 7");
+  expect(content).toContain("  created_at: 2026-01-01T00:00:00.000Z");
+  expect(parseModuleSkill(content).metadata.description).toBe(skill.metadata.description);
+  expect(parseModuleSkill(content).sections).toEqual([{ heading: "Refunds", content: "Refund within 30 days" }]);
+});
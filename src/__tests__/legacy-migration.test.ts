@@ -0,0 +1,152 @@
+import { test, expect } from "bun:test";
+import { join } from "path";
+import { mkdtemp, mkdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { fileExists, readTextFile, writeTextFile } from "../utils/fs-compat";
+import {
+  getProjectSkillDir,
+  parseModuleSkill,
+  updateSkillIndex,
+  writeModuleSkill,
+  rebuildSkillIndex,
+} from "../storage/knowledge-writer";
+import { findLegacySkills, migrateLegacySkills } from "../storage/legacy-migration";
+import { createIgnoreMatcher } from "../utils/ignore";
+import { statusCommand } from "../commands/status";
+import { migrateCommand } from "../commands/migrate";
+
+async function writeLegacySkill(tmpDir: string, modulePath: string, content: string): Promise<void> {
+  const dir = join(tmpDir, modulePath, ".knowledge");
+  await mkdir(dir, { recursive: true });
+  await writeTextFile(join(dir, "SKILL.md"), content);
+}
+
+test("sc-migrate moves legacy files into module skills, merging with existing ones", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-migrate-"));
+
+  try {
+    await writeLegacySkill(tmpDir, "src/auth", `---
+name: src-auth
+description: Legacy auth notes
+---
+
+# Auth
+
+Sessions live in Redis.
+
+## Tokens
+
+Old token advice
+
+## Refresh
+
+Refresh tokens rotate
+`);
+    await writeLegacySkill(tmpDir, "src/billing", "## Invoices\n\nInvoices are immutable\n");
+    await writeLegacySkill(tmpDir, "vendor/lib", "## Ignored\n\nnot migrated\n");
+    await mkdir(join(tmpDir, ".knowledge"), { recursive: true });
+    await writeTextFile(join(tmpDir, ".knowledge", "KNOWLEDGE.md"), "# Project Knowledge\n");
+
+    // The module skill written by extraction wins over the legacy file
+    await writeModuleSkill(tmpDir, "src/auth", {
+      metadata: { name: "src-auth", description: "Auth module" },
+      sections: [{ heading: "Tokens", content: "JWT with 15min expiry" }],
+    });
+
+    const isIgnored = createIgnoreMatcher(["vendor/"], tmpDir);
+    expect((await findLegacySkills(tmpDir, isIgnored)).map(f => f.modulePath)).toEqual(["src/auth", "src/billing"]);
+
+    const result = await migrateLegacySkills(tmpDir, { isIgnored });
+    expect(result.migrated.map(m => [m.modulePath, m.merged, m.added])).toEqual([
+      ["src/auth", true, ["Overview", "Refresh"]],
+      ["src/billing", false, ["Invoices"]],
+    ]);
+    expect(result.deleted).toEqual([]);
+    expect(await fileExists(join(tmpDir, "src/auth/.knowledge/SKILL.md"))).toBe(true);
+
+    const skillDir = await getProjectSkillDir(tmpDir);
+    const auth = parseModuleSkill(await readTextFile(join(skillDir, "modules", "src-auth.md")));
+    expect(auth.metadata.description).toBe("Auth module");
+    expect(auth.sections.map(s => [s.heading, s.content])).toEqual([
+      ["Tokens", "JWT with 15min expiry"],
+      ["Overview", "Sessions live in Redis."],
+      ["Refresh", "Refresh tokens rotate"],
+    ]);
+
+    const billing = parseModuleSkill(await readTextFile(join(skillDir, "modules", "src-billing.md")));
+    expect(billing.metadata).toEqual({ name: "src-billing", description: "Handles src-billing module." });
+
+    const index = await readTextFile(join(skillDir, "SKILL.md"));
+    expect(index).toContain("### src-auth\nAuth module\n- **Location**: `modules/src-auth.md`");
+    expect(index).toContain("- **Location**: `modules/src-billing.md`");
+
+    // Migrating again changes nothing and can clean up the old layout
+    const again = await migrateLegacySkills(tmpDir, { isIgnored, deleteLegacy: true });
+    expect(again.migrated.every(m => m.added.length === 0)).toBe(true);
+    expect(again.deleted).toEqual(["src/auth/.knowledge/SKILL.md", "src/billing/.knowledge/SKILL.md", ".knowledge/KNOWLEDGE.md"]);
+    expect(await fileExists(join(tmpDir, "src/auth/.knowledge"))).toBe(false);
+    expect(await fileExists(join(tmpDir, ".knowledge"))).toBe(false);
+    expect(await fileExists(join(tmpDir, "vendor/lib/.knowledge/SKILL.md"))).toBe(true);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("rebuildSkillIndex() lists module skills and keeps root-level entries", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-migrate-"));
+
+  try {
+    const skillDir = await getProjectSkillDir(tmpDir);
+    await updateSkillIndex(tmpDir, { name: "conventions", description: "Root knowledge", location: ".opencode/skills/x/SKILL.md" });
+    await updateSkillIndex(tmpDir, { name: "src-gone", description: "Deleted module", location: "modules/src-gone.md" });
+    await writeModuleSkill(tmpDir, "src/api", {
+      metadata: { name: "src-api", description: "API routes" },
+      sections: [{ heading: "Auth", content: "Check tokens first", kind: "gotcha" }],
+    });
+
+    const result = await rebuildSkillIndex(tmpDir);
+    expect(result).toEqual({ modules: 1, kept: 1, dropped: ["src-gone"] });
+
+    const index = await readTextFile(join(skillDir, "SKILL.md"));
+    expect(index).toStartWith("---\n");
+    expect(index).toContain("### conventions\nRoot knowledge");
+    expect(index).toContain("### src-api\nAPI routes\n- **Location**: `modules/src-api.md`\n- **Kinds**: 1 gotcha\n");
+    expect(index).not.toContain("src-gone");
+
+    const status = await statusCommand.execute({}, { directory: tmpDir } as any);
+    expect(status).toContain("SKILL.md): ✅ exists");
+    expect(status).toContain("Module count: 1");
+    expect(status).toContain("  - src-api");
+    expect(status).not.toContain("legacy");
+
+    await writeLegacySkill(tmpDir, "src/old", "## Notes\n\nold\n");
+    expect(await statusCommand.execute({}, { directory: tmpDir } as any)).toContain("1 legacy .knowledge/SKILL.md file not migrated yet");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("sc-migrate keeps the legacy index when a file fails to migrate", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-migrate-"));
+
+  try {
+    await writeLegacySkill(tmpDir, "src/auth", "## Tokens\n\nJWT\n");
+    await writeLegacySkill(tmpDir, "src/broken", "## Notes\n\nkept in the old layout\n");
+    await mkdir(join(tmpDir, ".knowledge"), { recursive: true });
+    await writeTextFile(join(tmpDir, ".knowledge", "KNOWLEDGE.md"), "# Project Knowledge\n");
+    await writeTextFile(join(tmpDir, ".knowledge.lock"), "");
+    // A directory where the module skill should go makes that file fail
+    await mkdir(join(await getProjectSkillDir(tmpDir), "modules", "src-broken.md"), { recursive: true });
+
+    const output = await migrateCommand.execute({ delete: true }, { directory: tmpDir } as any);
+
+    expect(output).toContain("❌ Failed:\n  - src/broken/.knowledge/SKILL.md");
+    expect(output).toContain("Removed 1 legacy file. Kept .knowledge/KNOWLEDGE.md because some files failed to migrate");
+    expect(await fileExists(join(tmpDir, "src/auth/.knowledge/SKILL.md"))).toBe(false);
+    expect(await fileExists(join(tmpDir, "src/broken/.knowledge/SKILL.md"))).toBe(true);
+    expect(await fileExists(join(tmpDir, ".knowledge", "KNOWLEDGE.md"))).toBe(true);
+    expect(await fileExists(join(tmpDir, ".knowledge.lock"))).toBe(true);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
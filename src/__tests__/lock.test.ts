@@ -0,0 +1,85 @@
+import { test, expect } from "bun:test";
+import { join } from "path";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { hostname, tmpdir } from "os";
+import { spawnSync } from "child_process";
+import { fileExists, readTextFile, writeTextFile, writeTextFileAtomic } from "../utils/fs-compat";
+import { acquireLock, releaseLock, withLock } from "../utils/lock";
+
+test("acquireLock() is exclusive and records its holder", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "test-lock-"));
+  const lockFile = join(tmpDir, "nested", ".lock");
+
+  try {
+    const lock = await acquireLock(lockFile);
+    const holder = JSON.parse(await readTextFile(lockFile));
+    expect(holder.pid).toBe(process.pid);
+    expect(holder.host).toBe(hostname());
+    expect(Date.parse(holder.acquiredAt)).not.toBeNaN();
+
+    // A live holder is waited for, not taken over
+    await expect(acquireLock(lockFile, { timeoutMs: 150 })).rejects.toThrow("Failed to acquire lock");
+
+    const order: string[] = [];
+    const second = withLock(lockFile, async () => { order.push("second"); });
+    await new Promise(resolve => setTimeout(resolve, 100));
+    order.push("first released");
+    await releaseLock(lock);
+    await second;
+
+    expect(order).toEqual(["first released", "second"]);
+    expect(await fileExists(lockFile)).toBe(false);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("acquireLock() takes over locks of dead processes and old locks", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "test-lock-"));
+  const lockFile = join(tmpDir, ".lock");
+  const deadPid = spawnSync("true").pid!;
+
+  try {
+    await writeTextFile(lockFile, JSON.stringify({ pid: deadPid, host: hostname(), acquiredAt: new Date().toISOString(), token: "crashed" }));
+    const lock = await acquireLock(lockFile, { timeoutMs: 200 });
+    expect(JSON.parse(await readTextFile(lockFile)).token).toBe(lock.token);
+    await releaseLock(lock);
+
+    // Locks written by older versions contain only the PID
+    await writeTextFile(lockFile, String(deadPid));
+    await releaseLock(await acquireLock(lockFile, { timeoutMs: 200 }));
+
+    // A holder on another host can't be checked, so only its age counts
+    const old = new Date(Date.now() - 60000).toISOString();
+    await writeTextFile(lockFile, JSON.stringify({ pid: process.pid, host: "elsewhere", acquiredAt: old, token: "remote" }));
+    await expect(acquireLock(lockFile, { timeoutMs: 100, staleMs: 120000 })).rejects.toThrow();
+    await releaseLock(await acquireLock(lockFile, { timeoutMs: 100, staleMs: 30000 }));
+
+    // Releasing a lock that was taken over leaves the new holder's lock in place
+    await writeTextFile(lockFile, JSON.stringify({ pid: process.pid, host: hostname(), acquiredAt: new Date().toISOString(), token: "other" }));
+    await releaseLock({ file: lockFile, token: "mine" });
+    expect(await fileExists(lockFile)).toBe(true);
+
+    expect(await readdir(tmpDir)).toEqual([".lock"]);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("writeTextFileAtomic() replaces files without leaving temp files", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "test-lock-"));
+  const filePath = join(tmpDir, "SKILL.md");
+
+  try {
+    await writeTextFile(filePath, "old");
+    await Promise.all(Array.from({ length: 10 }, (_, i) => writeTextFileAtomic(filePath, `version ${i}\n`.repeat(1000))));
+
+    expect(await readTextFile(filePath)).toMatch(/^(version \d\n)\1{999}$/);
+    expect(await readdir(tmpDir)).toEqual(["SKILL.md"]);
+
+    await expect(writeTextFileAtomic(join(tmpDir, "missing", "SKILL.md"), "x")).rejects.toThrow();
+    expect(await readdir(tmpDir)).toEqual(["SKILL.md"]);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
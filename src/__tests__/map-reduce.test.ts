@@ -0,0 +1,52 @@
+import { test, expect } from "bun:test";
+import { splitTranscript, summarizeTranscript } from "../extraction/map-reduce";
+import { estimateTokens } from "../utils/tokens";
+
+test("splitTranscript() packs whole turns into windows", () => {
+  const turn = (i: number, who: string, text: string) => `[${i}] ${who}\n${text}`;
+  const transcript = [
+    turn(1, "User", "a".repeat(100)),
+    turn(2, "Assistant", "b".repeat(100)),
+    turn(3, "User", "c".repeat(300)),
+    turn(4, "Assistant", "short"),
+  ].join("\n\n");
+
+  const windows = splitTranscript(transcript, 90);
+
+  expect(windows.map(w => w.match(/^\[\d+\]/gm))).toEqual([["[1]", "[2]"], ["[3]", "[4]"]]);
+  expect(windows.join("\n\n")).toBe(transcript);
+});
+
+test("splitTranscript() cuts a turn longer than a window at line breaks", () => {
+  const lines = Array.from({ length: 20 }, (_, i) => `line ${i} ${"x".repeat(20)}`);
+  const windows = splitTranscript(`[1] User\n${lines.join("\n")}`, 50);
+
+  expect(windows.length).toBeGreaterThan(1);
+  expect(windows.every(w => estimateTokens(w) <= 50)).toBe(true);
+  expect(windows.every(w => !w.startsWith("\n"))).toBe(true);
+});
+
+test("summarizeTranscript() fits all summaries into the budget, merging windows", async () => {
+  const transcript = Array.from({ length: 12 }, (_, i) => `[${i + 1}] User\nturn ${i + 1} ${"x".repeat(400)}`).join("\n\n");
+  const prompts: any[] = [];
+  const ctx: any = {
+    client: {
+      session: {
+        create: async () => ({ data: { id: `window-${prompts.length}` } }),
+        delete: async () => ({ data: true }),
+        // Summaries far longer than asked for
+        prompt: async (req: any) => {
+          prompts.push(req);
+          return { data: { parts: [{ type: "text", text: `- DECISION: part ${prompts.length} ${"word ".repeat(500)}` }] } };
+        },
+      },
+    },
+  };
+
+  const summary = await summarizeTranscript(ctx, "parent", transcript, 400);
+
+  expect(prompts).toHaveLength(2);
+  expect(prompts[1].body.parts[0].text).toContain("turn 12");
+  expect(estimateTokens(summary)).toBeLessThanOrEqual(400);
+  expect(summary).toContain("### Part 2/2\n- DECISION: part 2");
+});
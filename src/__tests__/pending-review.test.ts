@@ -0,0 +1,172 @@
+import { test, expect } from "bun:test";
+import { join } from "path";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { fileExists, readTextFile } from "../utils/fs-compat";
+import { writeModuleSkill, getModuleSkillPath, getProjectSkillName } from "../storage/knowledge-writer";
+import {
+  stagePendingSkill,
+  listPendingSkills,
+  readPendingSkill,
+  formatPendingDiff,
+  acceptPendingSkill,
+  rejectPendingSkill,
+  type PendingSkill,
+} from "../storage/pending-review";
+import { formatDiff } from "../utils/diff";
+
+function pendingAuthSkill(): PendingSkill {
+  return {
+    modulePath: "src/auth",
+    skill: {
+      metadata: { name: "src-auth", description: "Auth patterns" },
+      sections: [
+        { heading: "Tokens", content: "Refresh tokens rotate on use" },
+        { heading: "Sessions", content: "Sessions live in Redis" },
+      ],
+      relatedFiles: ["src/auth/refresh.ts"],
+    },
+    indexEntry: { name: "src-auth", description: "Auth patterns", location: "modules/src-auth.md" },
+    sessionID: "s1",
+    createdAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+test("formatDiff() marks added and removed lines", () => {
+  expect(formatDiff("a\nb\nc", "a\nB\nc")).toBe("  a\n- b\n+ B\n  c");
+  expect(formatDiff("same", "same")).toBe("");
+});
+
+test("staged skills do not touch module files until accepted", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-review-"));
+
+  try {
+    await stagePendingSkill(tmpDir, pendingAuthSkill());
+
+    const pending = await listPendingSkills(tmpDir);
+    expect(pending.map(p => p.key)).toEqual(["src-auth"]);
+    expect(await fileExists(await getModuleSkillPath(tmpDir, "src/auth"))).toBe(false);
+
+    const diff = await formatPendingDiff(tmpDir, pending[0].pending);
+    expect(diff).toContain("+ ## Tokens");
+    expect(diff).toContain("+ Refresh tokens rotate on use");
+
+    const outcome = await acceptPendingSkill(tmpDir, "src-auth");
+    expect(outcome).toEqual({ sections: ["Tokens", "Sessions"], resolved: true });
+
+    const written = await readTextFile(await getModuleSkillPath(tmpDir, "src/auth"));
+    expect(written).toContain("## Tokens");
+    expect(written).toContain("## Sessions");
+
+    const index = await readTextFile(join(tmpDir, ".opencode", "skills", await getProjectSkillName(tmpDir), "SKILL.md"));
+    expect(index).toContain("### src-auth");
+    expect(await listPendingSkills(tmpDir)).toEqual([]);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("accepting one section merges it and keeps the rest pending", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-review-"));
+
+  try {
+    await writeModuleSkill(tmpDir, "src/auth", {
+      metadata: { name: "src-auth", description: "Auth patterns" },
+      sections: [{ heading: "Passwords", content: "bcrypt cost 12" }],
+      relatedFiles: ["src/auth/password.ts"],
+    });
+    await stagePendingSkill(tmpDir, pendingAuthSkill());
+
+    const outcome = await acceptPendingSkill(tmpDir, "src-auth", ["tokens"]);
+    expect(outcome).toEqual({ sections: ["Tokens"], resolved: false });
+
+    const written = await readTextFile(await getModuleSkillPath(tmpDir, "src/auth"));
+    expect(written).toContain("## Passwords");
+    expect(written).toContain("## Tokens");
+    expect(written).not.toContain("## Sessions");
+    expect(written).toContain("src/auth/password.ts");
+    expect(written).toContain("src/auth/refresh.ts");
+
+    const remaining = await readPendingSkill(tmpDir, "src-auth");
+    expect(remaining?.skill.sections.map(s => s.heading)).toEqual(["Sessions"]);
+
+    const rejected = await rejectPendingSkill(tmpDir, "src-auth", ["Sessions"]);
+    expect(rejected).toEqual({ sections: ["Sessions"], resolved: true });
+    expect(await readPendingSkill(tmpDir, "src-auth")).toBeNull();
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("rejecting an unknown skill fails clearly", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-review-"));
+
+  try {
+    await expect(rejectPendingSkill(tmpDir, "src-nope")).rejects.toThrow('No pending skill named "src-nope"');
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("accepting a pending skill keeps unmentioned sections and applies removals", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-review-"));
+
+  try {
+    await writeModuleSkill(tmpDir, "src/auth", {
+      metadata: { name: "src-auth", description: "Auth patterns" },
+      sections: [
+        { heading: "Passwords", content: "bcrypt cost 12" },
+        { heading: "Legacy", content: "Basic auth fallback" },
+      ],
+    });
+    await stagePendingSkill(tmpDir, { ...pendingAuthSkill(), removedSections: ["Legacy"] });
+
+    const diff = await formatPendingDiff(tmpDir, (await readPendingSkill(tmpDir, "src-auth"))!);
+    expect(diff).toContain("- ## Legacy");
+    expect(diff).not.toContain("- ## Passwords");
+
+    const outcome = await acceptPendingSkill(tmpDir, "src-auth");
+    expect(outcome).toEqual({ sections: ["Tokens", "Sessions", "Legacy"], resolved: true });
+
+    const written = await readTextFile(await getModuleSkillPath(tmpDir, "src/auth"));
+    expect(written).toContain("## Passwords");
+    expect(written).toContain("## Tokens");
+    expect(written).not.toContain("## Legacy");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("staging twice before review keeps both proposals", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-review-"));
+
+  try {
+    await stagePendingSkill(tmpDir, { ...pendingAuthSkill(), removedSections: ["Cookies"] });
+    await stagePendingSkill(tmpDir, {
+      ...pendingAuthSkill(),
+      skill: {
+        metadata: { name: "src-auth", description: "Auth patterns, updated" },
+        sections: [
+          { heading: "Tokens", content: "Refresh tokens rotate every hour" },
+          { heading: "Logout", content: "Logout revokes all refresh tokens" },
+        ],
+        relatedFiles: ["src/auth/logout.ts"],
+      },
+      removedSections: ["Legacy SSO"],
+      sessionID: "s2",
+    });
+
+    const pending = await readPendingSkill(tmpDir, "src-auth");
+    expect(pending?.skill.sections.map(s => [s.heading, s.content])).toEqual([
+      ["Tokens", "Refresh tokens rotate every hour"],
+      ["Sessions", "Sessions live in Redis"],
+      ["Logout", "Logout revokes all refresh tokens"],
+    ]);
+    expect(pending?.skill.relatedFiles).toEqual(["src/auth/refresh.ts", "src/auth/logout.ts"]);
+    expect(pending?.removedSections).toEqual(["Cookies", "Legacy SSO"]);
+    expect(pending?.skill.metadata.description).toBe("Auth patterns, updated");
+    expect(pending?.sessionID).toBe("s2");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
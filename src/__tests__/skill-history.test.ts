@@ -0,0 +1,78 @@
+import { test, expect } from "bun:test";
+import { join } from "path";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { readTextFile, writeTextFile } from "../utils/fs-compat";
+import { mergeModuleSkill, parseModuleSkill } from "../storage/knowledge-writer";
+import { trackSkillAccess } from "../storage/usage-tracker";
+import { listRevisions, restoreRevision, setHistoryLimit, formatRevisionDiff } from "../storage/skill-history";
+
+async function writeAuthSkill(tmpDir: string, content: string, sessionID: string) {
+  return mergeModuleSkill(tmpDir, "src/auth", {
+    metadata: { name: "src-auth", description: "Auth" },
+    sections: [{ heading: "Tokens", content }],
+  }, { revision: { source: "extraction", sessionID, model: "openai/gpt-4o" } });
+}
+
+test("writes are recorded with their source and can be restored", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-history-"));
+
+  try {
+    const { path: skillPath } = await writeAuthSkill(tmpDir, "JWT in cookies.", "ses_1");
+    await trackSkillAccess(skillPath, tmpDir);
+    await writeAuthSkill(tmpDir, "JWT in localStorage (wrong).", "ses_2");
+
+    const revisions = await listRevisions(tmpDir, "src-auth");
+    // Usage statistics written in between are not a revision of their own
+    expect(revisions.map(r => [r.revision, r.source, r.sessionID, r.changes])).toEqual([
+      [1, "extraction", "ses_1", { added: ["Tokens"], updated: [], removed: [] }],
+      [2, "extraction", "ses_2", { added: [], updated: ["Tokens"], removed: [] }],
+    ]);
+    expect(revisions[1].model).toBe("openai/gpt-4o");
+    expect(formatRevisionDiff(revisions[0], revisions[1])).toContain("+ JWT in localStorage (wrong).");
+
+    const { changed, changes } = await restoreRevision(tmpDir, "src/auth", 1);
+    expect(changed).toBe(true);
+    expect(changes.updated).toEqual(["Tokens"]);
+
+    const restored = await readTextFile(skillPath);
+    expect(parseModuleSkill(restored).sections[0].content).toBe("JWT in cookies.");
+    expect(restored).toContain("access_count: 1");
+
+    const afterRestore = await listRevisions(tmpDir, "src-auth");
+    expect(afterRestore.map(r => r.source)).toEqual(["extraction", "extraction", "sc-restore r1"]);
+
+    // The history lives in the gitignored state directory
+    const stateDir = join(skillPath, "..", "..", ".smart-codebase");
+    expect(await readTextFile(join(stateDir, ".gitignore"))).toBe("*\n");
+    expect(await readdir(join(stateDir, "history", "src-auth"))).toHaveLength(3);
+
+    await expect(restoreRevision(tmpDir, "src-auth", 9)).rejects.toThrow("No revision 9");
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("hand edits are kept as revisions and history is bounded", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "sc-history-"));
+  setHistoryLimit(3);
+
+  try {
+    const { path: skillPath } = await writeAuthSkill(tmpDir, "v1", "ses_1");
+    await writeTextFile(skillPath, (await readTextFile(skillPath)).replace("v1", "edited by hand"));
+    await writeAuthSkill(tmpDir, "v2", "ses_2");
+
+    let revisions = await listRevisions(tmpDir, "src-auth");
+    expect(revisions.map(r => r.source)).toEqual(["extraction", "manual edit", "extraction"]);
+    expect(parseModuleSkill(revisions[1].content).sections[0].content).toBe("edited by hand");
+
+    await writeAuthSkill(tmpDir, "v3", "ses_3");
+    await writeAuthSkill(tmpDir, "v4", "ses_4");
+
+    revisions = await listRevisions(tmpDir, "src-auth");
+    expect(revisions.map(r => [r.revision, r.sessionID])).toEqual([[3, "ses_2"], [4, "ses_3"], [5, "ses_4"]]);
+  } finally {
+    setHistoryLimit(undefined);
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,123 @@
+import { test, expect } from "bun:test";
+import {
+  extractJsonFromText,
+  parseExtractionResponse,
+  validateExtractionPayload,
+} from "../extraction/skill-schema";
+
+const validSkill = {
+  modulePath: "src/invoice",
+  name: "invoice-processing",
+  description: "Invoice validation. Use when modifying invoice forms.",
+  sections: [{ heading: "Validation", content: "Amounts use Decimal" }],
+  relatedFiles: ["src/invoice/form.tsx"],
+};
+
+test("extractJsonFromText() handles fences and surrounding prose", () => {
+  expect(extractJsonFromText('```json\n{"skills": []}\n```')).toBe('{"skills": []}');
+  expect(extractJsonFromText('Sure! {"skills": [{"name": "a}"}]} Hope this helps.')).toBe(
+    '{"skills": [{"name": "a}"}]}'
+  );
+  expect(extractJsonFromText("no json here")).toBeNull();
+});
+
+test("validateExtractionPayload() accepts valid and empty payloads", () => {
+  const result = validateExtractionPayload({ skills: [validSkill] });
+  expect(result.ok).toBe(true);
+  if (result.ok) {
+    expect(result.skills[0].name).toBe("invoice-processing");
+  }
+
+  expect(validateExtractionPayload({ skills: [] })).toEqual({ ok: true, skills: [] });
+  expect(validateExtractionPayload({ skill: null })).toEqual({ ok: true, skills: [] });
+});
+
+test("validateExtractionPayload() reports field-level errors", () => {
+  const result = validateExtractionPayload({
+    skills: [
+      {
+        ...validSkill,
+        name: "Invoice_Processing",
+        description: "x".repeat(301),
+        sections: [{ heading: "", content: "ok" }],
+        relatedFiles: "src/invoice/form.tsx",
+      },
+    ],
+  });
+
+  expect(result.ok).toBe(false);
+  if (!result.ok) {
+    expect(result.errors).toEqual([
+      'skills[0].name: must be lowercase letters, digits and single hyphens (got "Invoice_Processing")',
+      "skills[0].description: must be at most 300 characters (got 301)",
+      "skills[0].sections[0].heading: required non-empty string",
+      "skills[0].relatedFiles: must be an array of strings",
+    ]);
+  }
+});
+
+test("validateExtractionPayload() rejects untouched and duplicate modules", () => {
+  const result = validateExtractionPayload(
+    { skills: [validSkill, validSkill, { ...validSkill, modulePath: "src/other" }] },
+    { allowedModules: ["src/invoice"] }
+  );
+
+  expect(result.ok).toBe(false);
+  if (!result.ok) {
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]).toContain("duplicate module");
+    expect(result.errors[1]).toContain("not one of the touched modules");
+  }
+});
+
+test("parseExtractionResponse() reports invalid JSON", () => {
+  const result = parseExtractionResponse('{"skills": [}');
+  expect(result.ok).toBe(false);
+  if (!result.ok) {
+    expect(result.errors[0]).toStartWith("reply: invalid JSON");
+  }
+});
+
+test("validateExtractionPayload() enforces per-module profile limits", () => {
+  const skill = {
+    ...validSkill,
+    sections: [
+      { heading: "A", content: "short" },
+      { heading: "B", content: "this one is far too long" },
+    ],
+  };
+
+  const result = validateExtractionPayload(
+    { skills: [skill] },
+    { limits: { "src/invoice": { maxSections: 1, maxSectionLength: 10 } } }
+  );
+
+  expect(result.ok).toBe(false);
+  if (!result.ok) {
+    expect(result.errors).toEqual([
+      "skills[0].sections: must have at most 1 sections (got 2)",
+      "skills[0].sections[1].content: must be at most 10 characters (got 24)",
+    ]);
+  }
+  expect(validateExtractionPayload({ skills: [skill] }, { limits: { "src/other": { maxSections: 1 } } }).ok).toBe(true);
+});
+
+test("validateExtractionPayload() checks section kinds and severities", () => {
+  const typed = {
+    ...validSkill,
+    sections: [{ heading: "Rounding", content: "Use Decimal", kind: "gotcha", severity: "high" }],
+  };
+  const result = validateExtractionPayload({ skills: [typed] });
+  expect(result.ok && result.skills[0].sections[0]).toEqual({
+    heading: "Rounding", content: "Use Decimal", kind: "gotcha", severity: "high",
+  });
+
+  const invalid = validateExtractionPayload({
+    skills: [{ ...validSkill, sections: [{ heading: "A", content: "b", kind: "trivia", severity: "urgent" }] }],
+  });
+  expect(invalid.ok).toBe(false);
+  if (!invalid.ok) {
+    expect(invalid.errors[0]).toStartWith("skills[0].sections[0].kind: must be one of gotcha, decision");
+    expect(invalid.errors[1]).toStartWith("skills[0].sections[0].severity: must be one of low, medium");
+  }
+});
@@ -0,0 +1,47 @@
+import { test, expect } from "bun:test";
+import { estimateTokens, truncateToTokens } from "../utils/tokens";
+import { allocateBudgets, formatBudgetUsage, resolveBudgets } from "../preprocessing/session-summary";
+
+test("estimateTokens() counts CJK and code denser than English prose", () => {
+  const prose = "Amounts are stored as integer cents to avoid rounding errors.";
+  const chinese = "金额以整数分存储，以避免舍入误差。";
+  const code = "const fee = Math.round(amount * rate) / 100; // {cents}";
+
+  expect(estimateTokens(prose)).toBeLessThan(prose.length / 3);
+  expect(estimateTokens(chinese)).toBe(chinese.length);
+  expect(estimateTokens(code)).toBeGreaterThan(code.length / 4);
+  expect(estimateTokens("")).toBe(0);
+});
+
+test("truncateToTokens() returns the longest prefix within the budget", () => {
+  expect(truncateToTokens("cat dog bird fish", 2)).toBe("cat dog ");
+  expect(truncateToTokens("金额以整数分存储", 3)).toBe("金额以");
+  expect(truncateToTokens("short", 10)).toBe("short");
+  expect(truncateToTokens("short", 0)).toBe("");
+});
+
+test("allocateBudgets() lends unused budget to the most important sections", () => {
+  const budgets = resolveBudgets({ conversation: 0.5, diff: 30, snippets: 0.2 }, 100);
+  expect(budgets).toEqual({ conversation: 50, debuggingArcs: 10, diff: 30, toolCalls: 5, snippets: 20 });
+
+  const words = (n: number) => Array.from({ length: n }, () => "word").join(" ");
+  const { sections, truncated, usage } = allocateBudgets([
+    { name: "conversation", content: words(80), importance: 100 },
+    { name: "debuggingArcs", content: "", importance: 90 },
+    { name: "diff", content: words(60), importance: 80 },
+    { name: "toolCalls", content: words(2), importance: 60 },
+    { name: "snippets", content: words(5), importance: 40 },
+  ], 100, budgets);
+
+  expect(truncated).toBe(true);
+  // 50 + 30 + 2 + 5 fit their own budgets; the 13 tokens left over go to the conversation first
+  expect(usage.map(u => [u.section, u.tokens, u.kept])).toEqual([
+    ["conversation", 80, 63],
+    ["debuggingArcs", 0, 0],
+    ["diff", 60, 30],
+    ["toolCalls", 2, 2],
+    ["snippets", 5, 5],
+  ]);
+  expect(sections[2].content.endsWith("... [truncated]")).toBe(true);
+  expect(formatBudgetUsage(usage)).toContain("diff 30/60 (budget 30, dropped 30)");
+});
@@ -0,0 +1,51 @@
+import { test, expect } from "bun:test";
+import {
+  createToolCallRecord,
+  describeToolCall,
+  getCommandsRun,
+  getEditedFiles,
+  getReadOnlyFiles,
+} from "../preprocessing/tool-calls";
+
+test("createToolCallRecord() normalizes arguments by operation", () => {
+  const edit = createToolCallRecord("edit", { filePath: "/project/src/auth/login.ts" }, { title: "login.ts" }, "/project");
+  expect(edit).toMatchObject({ tool: "edit", operation: "write", filePath: "src/auth/login.ts", target: "login.ts" });
+
+  const bash = createToolCallRecord(
+    "bash",
+    { command: "bun test", description: "Run tests" },
+    { title: "Run tests", metadata: { exit: 1 } },
+    "/project",
+    Date.now() - 1500
+  );
+  expect(bash).toMatchObject({ operation: "exec", command: "bun test", exitCode: 1 });
+  expect(bash.filePath).toBeUndefined();
+  expect(bash.durationMs).toBeGreaterThanOrEqual(1500);
+
+  const grep = createToolCallRecord("grep", { pattern: "TODO", path: "/project/src" }, { title: "TODO" }, "/project");
+  expect(grep).toMatchObject({ operation: "search", pattern: "TODO", filePath: "src" });
+  expect(describeToolCall(grep)).toBe('grep "TODO" in src');
+
+  const outside = createToolCallRecord("read", { filePath: "/etc/hosts" }, { title: "/etc/hosts" }, "/project");
+  expect(outside.filePath).toBe("/etc/hosts");
+});
+
+test("edited files, read-only files and commands are kept apart", () => {
+  const calls = [
+    createToolCallRecord("read", { filePath: "src/a.ts" }, { title: "src/a.ts" }, "/project"),
+    createToolCallRecord("read", { filePath: "src/b.ts" }, { title: "src/b.ts" }, "/project"),
+    createToolCallRecord("edit", { filePath: "src/a.ts" }, { title: "src/a.ts" }, "/project"),
+    createToolCallRecord("bash", { command: "git status" }, { title: "Show status", metadata: { exit: 0 } }, "/project"),
+    createToolCallRecord("glob", { pattern: "**/*.ts" }, { title: "src" }, "/project"),
+    // Journaled before arguments were captured: only the output title is known
+    { tool: "write", target: "src/c.ts", timestamp: 1 },
+    { tool: "bash", target: "Install dependencies", timestamp: 2 },
+  ];
+
+  expect(getEditedFiles(calls)).toEqual(["src/a.ts", "src/c.ts"]);
+  expect(getReadOnlyFiles(calls)).toEqual(["src/b.ts"]);
+  expect(getCommandsRun(calls).map(describeToolCall)).toEqual([
+    "bash: git status (exit 0)",
+    "bash on Install dependencies",
+  ]);
+});
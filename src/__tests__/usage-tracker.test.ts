@@ -7,7 +7,8 @@ import {
   trackSkillAccess,
   shouldTrackPath,
 } from "../storage/usage-tracker";
-import { getProjectSkillName } from "../storage/knowledge-writer";
+import { getProjectSkillName, mergeModuleSkill, parseModuleSkill } from "../storage/knowledge-writer";
+import { acquireLock, releaseLock } from "../utils/lock";
 
 /**
  * TDD RED PHASE - Tests for Usage Tracker
@@ -266,6 +267,32 @@ Common utility functions
   }
 });
 
+test("trackSkillAccess() waits for skill writes holding the module lock", async () => {
+  const tmpDir = await mkdtemp(join(tmpdir(), "test-usage-"));
+
+  try {
+    const { path: skillPath } = await mergeModuleSkill(tmpDir, "src/utils", {
+      metadata: { name: "src-utils", description: "Utility patterns" },
+      sections: [{ heading: "Helpers", content: "Common utility functions" }],
+    });
+
+    // A write in progress: read, hold the lock, write back later
+    const lock = await acquireLock(join(skillPath, "..", ".lock"));
+    const before = await readTextFile(skillPath);
+    const tracking = trackSkillAccess(skillPath, tmpDir);
+    await new Promise(resolve => setTimeout(resolve, 150));
+    await writeTextFile(skillPath, `${before}\n## Dates\nDate helpers\n`);
+    await releaseLock(lock);
+    await tracking;
+
+    const content = await readTextFile(skillPath);
+    expect(parseModuleSkill(content).sections.map(s => s.heading)).toEqual(["Helpers", "Dates"]);
+    expect(content).toMatch(/access_count: 1\n/);
+  } finally {
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+});
+
 test("trackSkillAccess() handles invalid paths gracefully", async () => {
   const tmpDir = await mkdtemp(join(tmpdir(), "test-usage-"));
   const nonExistentPath = join(tmpDir, "non-existent.md");
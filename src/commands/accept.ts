@@ -0,0 +1,24 @@
+import { tool } from "@opencode-ai/plugin";
+import { acceptPendingSkill } from "../storage/pending-review";
+import { loadConfig } from "../config";
+
+export const acceptCommand = tool({
+  description: "Accept a pending extracted skill, or some of its sections, into the knowledge base",
+  args: {
+    skill: tool.schema.string().describe("Pending skill name (e.g. src-auth)"),
+    sections: tool.schema.array(tool.schema.string()).optional().describe("Section headings to accept. Accepts the whole skill when omitted"),
+  },
+  async execute(input, ctx) {
+    try {
+      const config = loadConfig(ctx.directory);
+      const outcome = await acceptPendingSkill(ctx.directory, input.skill, input.sections, config.skillFormat);
+      const sectionsText = outcome.sections.length > 0 ? outcome.sections.join(', ') : '(no sections)';
+      const remainder = outcome.resolved ? '' : '\nRemaining sections are still pending review.';
+
+      return `✅ Accepted ${input.skill}: ${sectionsText}${remainder}`;
+    } catch (error) {
+      console.error('[smart-codebase] Accept command failed:', error);
+      return `❌ Failed to accept: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  },
+});
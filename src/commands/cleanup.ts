@@ -1,9 +1,12 @@
 import { tool } from "@opencode-ai/plugin";
-import { join } from "path";
+import { dirname, join } from "path";
 import { unlink } from "fs/promises";
-import { findFiles, fileExists, readTextFile, writeTextFile } from "../utils/fs-compat";
+import { findFiles, fileExists, readTextFile, writeTextFileAtomic } from "../utils/fs-compat";
 import { loadConfig } from "../config";
 import { getProjectRootDir } from "../utils/git";
+import { frontmatterMapping, frontmatterString, readFrontmatter } from "../utils/frontmatter";
+import { indexEntryPattern } from "../storage/knowledge-writer";
+import { acquireLock, releaseLock } from "../utils/lock";
 import type { UsageMetadata, CleanupThresholds } from "../types";
 
 interface EligibleSkill {
@@ -17,7 +20,7 @@ interface EligibleSkill {
 interface SkillFrontmatter {
   name: string;
   description: string;
-  usage?: UsageMetadata;
+  usage?: Partial<UsageMetadata>;
 }
 
 export const cleanupCommand = tool({
@@ -30,7 +33,7 @@ export const cleanupCommand = tool({
     const projectRoot = ctx.directory;
 
     try {
-      const config = loadConfig();
+      const config = loadConfig(projectRoot);
       const thresholds = config.cleanupThresholds || {
         minAgeDays: 60,
         minAccessCount: 5,
@@ -117,49 +120,24 @@ async function findEligibleSkills(
 }
 
 function extractFrontmatter(content: string): SkillFrontmatter {
-  const match = content.match(/^---\n([\s\S]*?)\n---/);
-  if (!match) {
+  const { data, hasFrontmatter } = readFrontmatter(content);
+  if (!hasFrontmatter) {
     return { name: "unknown", description: "" };
   }
 
-  const raw = match[1];
-  const lines = raw.split('\n');
-  const frontmatter: any = {};
-  let currentKey: string | null = null;
-  let nestedObject: any = null;
-
-  for (const line of lines) {
-    if (!line.trim()) continue;
-
-    const indent = line.search(/\S/);
-    const trimmed = line.trim();
-
-    if (indent === 0 && trimmed.includes(':')) {
-      const [key, ...valueParts] = trimmed.split(':');
-      const value = valueParts.join(':').trim();
-      currentKey = key.trim();
-
-      if (value) {
-        frontmatter[currentKey] = value;
-        nestedObject = null;
-      } else {
-        frontmatter[currentKey] = {};
-        nestedObject = frontmatter[currentKey];
-      }
-    } else if (nestedObject && trimmed.includes(':')) {
-      const [key, ...valueParts] = trimmed.split(':');
-      const value = valueParts.join(':').trim();
-      const nestedKey = key.trim();
-
-      if (nestedKey === 'access_count') {
-        nestedObject[nestedKey] = parseInt(value, 10) || 0;
-      } else {
-        nestedObject[nestedKey] = value;
-      }
-    }
-  }
-
-  return frontmatter as SkillFrontmatter;
+  const usage = data.usage === undefined ? undefined : frontmatterMapping(data, 'usage');
+  return {
+    name: frontmatterString(data, 'name'),
+    description: frontmatterString(data, 'description'),
+    ...(usage && {
+      usage: {
+        created_at: frontmatterString(usage, 'created_at') || undefined,
+        last_updated: frontmatterString(usage, 'last_updated') || undefined,
+        access_count: typeof usage.access_count === 'number' ? usage.access_count : undefined,
+        last_accessed: frontmatterString(usage, 'last_accessed') || undefined,
+      },
+    }),
+  };
 }
 
 function formatPreviewResult(eligible: EligibleSkill[]): string {
@@ -188,7 +166,13 @@ async function performCleanup(
 
   for (const skill of eligible) {
     try {
-      await unlink(skill.path);
+      // Same lock as skill writes and usage tracking, so a delete never races a write
+      const lock = await acquireLock(join(dirname(skill.path), '.lock'));
+      try {
+        await unlink(skill.path);
+      } finally {
+        await releaseLock(lock);
+      }
       deletedNames.push(skill.name);
     } catch (error) {
       console.error(`[cleanup] Failed to delete ${skill.path}:`, error);
@@ -231,19 +215,17 @@ async function updateMainIndex(projectRoot: string, deletedNames: string[]): Pro
     return;
   }
 
-  let content = await readTextFile(indexPath);
+  const lock = await acquireLock(join(dirname(indexPath), '.lock'));
 
-  for (const name of deletedNames) {
-    const entryRegex = new RegExp(
-      `### ${escapeRegex(name)}[\\s\\S]*?(?=\\n### |$)`,
-      'g'
-    );
-    content = content.replace(entryRegex, '').replace(/\n{3,}/g, '\n\n');
-  }
+  try {
+    let content = await readTextFile(indexPath);
 
-  await writeTextFile(indexPath, content.trim() + '\n');
-}
+    for (const name of deletedNames) {
+      content = content.replace(indexEntryPattern(name, 'g'), '').replace(/\n{3,}/g, '\n\n');
+    }
 
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    await writeTextFileAtomic(indexPath, content.trim() + '\n');
+  } finally {
+    await releaseLock(lock);
+  }
 }
@@ -0,0 +1,46 @@
+import { tool } from "@opencode-ai/plugin";
+import { listConflicts, resolveConflict } from "../storage/conflicts";
+import { loadConfig } from "../config";
+
+export const conflictsCommand = tool({
+  description: "List contradictions between new and existing knowledge, or resolve one by choosing a side",
+  args: {
+    resolve: tool.schema.string().optional().describe("Conflict id to resolve. Lists all conflicts when omitted"),
+    keep: tool.schema.enum(["existing", "proposed"]).optional().describe("Side to keep when resolving"),
+  },
+  async execute(input, ctx) {
+    try {
+      if (input.resolve) {
+        if (!input.keep) {
+          return `❌ Pass keep=existing or keep=proposed to resolve conflict ${input.resolve}`;
+        }
+
+        const config = loadConfig(ctx.directory);
+        const entry = await resolveConflict(ctx.directory, input.resolve, input.keep, config.skillFormat);
+        const kept = input.keep === 'proposed' ? entry.conflict.proposed : entry.conflict.existing;
+        return `✅ Resolved ${input.resolve} in ${entry.skill} (${entry.conflict.section}): kept "${kept}"`;
+      }
+
+      const entries = await listConflicts(ctx.directory);
+      if (entries.length === 0) {
+        return "✅ No unresolved knowledge conflicts";
+      }
+
+      const blocks = entries.map(({ skill, conflict }) => {
+        const evidence = conflict.evidence ? `\n  Evidence: ${conflict.evidence}` : '';
+        return `[${conflict.id}] ${skill} › ${conflict.section}
+  Existing: ${conflict.existing}
+  Proposed: ${conflict.proposed}${evidence}`;
+      });
+
+      return `⚠️ ${entries.length} unresolved conflict${entries.length !== 1 ? 's' : ''}
+
+${blocks.join('\n\n')}
+
+Resolve with sc-conflicts resolve=<id> keep=existing|proposed`;
+    } catch (error) {
+      console.error('[smart-codebase] Conflicts command failed:', error);
+      return `❌ Failed to handle conflicts: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  },
+});
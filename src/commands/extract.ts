@@ -1,16 +1,27 @@
 import { tool } from "@opencode-ai/plugin";
-import { extractKnowledge } from "../hooks/knowledge-extractor";
+import { extractKnowledge, runPendingExtractions } from "../hooks/knowledge-extractor";
 import { displayExtractionResult } from "../display/feedback";
 import { getPluginInput } from "../plugin-context";
 import { loadConfig } from "../config";
 
 export const extractCommand = tool({
   description: "Manually trigger knowledge extraction from codebase",
-  args: {},
-  async execute(_input, ctx) {
+  args: {
+    resume: tool.schema.boolean().optional().describe("Run extractions left over from a previous OpenCode run instead of the current session"),
+  },
+  async execute(input, ctx) {
     try {
       const pluginInput = getPluginInput();
-      const config = loadConfig();
+      const config = loadConfig(pluginInput.directory);
+
+      if (input.resume) {
+        const results = await runPendingExtractions(pluginInput, config);
+        if (results.length === 0) {
+          return "No interrupted extractions to resume";
+        }
+        return results.map(displayExtractionResult).join('\n');
+      }
+
       const result = await extractKnowledge(pluginInput, ctx.sessionID, config);
       
       return displayExtractionResult(result);
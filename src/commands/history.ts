@@ -0,0 +1,56 @@
+import { tool } from "@opencode-ai/plugin";
+import { formatRevisionDiff, listRevisions, type SkillRevision } from "../storage/skill-history";
+
+function formatChanges(changes: SkillRevision['changes']): string {
+  const parts = [
+    ...changes.added.map(h => `+${h}`),
+    ...changes.updated.map(h => `~${h}`),
+    ...changes.removed.map(h => `-${h}`),
+  ];
+  return parts.length > 0 ? parts.join(', ') : '(no section changes)';
+}
+
+export const historyCommand = tool({
+  description: "List earlier versions of a module skill, newest first, with what changed in each",
+  args: {
+    skill: tool.schema.string().describe("Module skill name (e.g. src-auth) or module path (e.g. src/auth)"),
+    limit: tool.schema.number().optional().describe("Number of revisions to show. Default: 10"),
+  },
+  async execute(input, ctx) {
+    try {
+      const revisions = await listRevisions(ctx.directory, input.skill);
+      if (revisions.length === 0) {
+        return `📭 No history for ${input.skill} yet. Revisions are recorded when the plugin writes the skill.`;
+      }
+
+      const shown = revisions.slice(-(input.limit ?? 10)).reverse();
+      const blocks = shown.map((revision) => {
+        const index = revisions.indexOf(revision);
+        const origin = [
+          revision.source,
+          revision.sessionID && `session ${revision.sessionID}`,
+          revision.model && `model ${revision.model}`,
+        ].filter(Boolean).join(' · ');
+        const current = index === revisions.length - 1 ? ' (latest)' : '';
+        const diff = formatRevisionDiff(revisions[index - 1], revision);
+
+        return `### r${revision.revision}${current} · ${revision.createdAt}
+${origin}
+Sections: ${formatChanges(revision.changes)}${diff ? `
+
+\`\`\`diff
+${diff}
+\`\`\`` : ''}`;
+      });
+
+      return `🕘 ${revisions.length} revision${revisions.length !== 1 ? 's' : ''} of ${input.skill}
+
+${blocks.join('\n\n')}
+
+Roll back with sc-restore skill=${input.skill} revision=<n>`;
+    } catch (error) {
+      console.error('[smart-codebase] History command failed:', error);
+      return `❌ Failed to read history: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  },
+});
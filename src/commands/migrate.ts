@@ -0,0 +1,48 @@
+import { tool } from "@opencode-ai/plugin";
+import { loadIgnoreMatcher } from "../utils/ignore";
+import { loadConfig } from "../config";
+import { migrateLegacySkills } from "../storage/legacy-migration";
+
+export const migrateCommand = tool({
+  description: "Move legacy <module>/.knowledge/SKILL.md files into .opencode/skills module skills and rebuild the index",
+  args: {
+    delete: tool.schema.boolean().optional().describe("Remove the legacy files after migrating them. Default: false"),
+  },
+  async execute(input, ctx) {
+    try {
+      const config = loadConfig(ctx.directory);
+      const result = await migrateLegacySkills(ctx.directory, {
+        deleteLegacy: input.delete ?? false,
+        isIgnored: loadIgnoreMatcher(ctx.directory, config.ignore),
+        format: config.skillFormat,
+      });
+
+      if (result.migrated.length === 0 && result.failed.length === 0) {
+        return `✅ No legacy .knowledge/SKILL.md files found. Index rebuilt with ${result.index.modules} module skill${result.index.modules !== 1 ? 's' : ''}.`;
+      }
+
+      const lines = result.migrated.map(m => {
+        const sections = m.added.length > 0 ? `+${m.added.length} section${m.added.length !== 1 ? 's' : ''}` : 'no new sections';
+        return `  - ${m.path} → modules/${m.skill}.md (${m.merged ? 'merged' : 'new'}, ${sections})`;
+      });
+      const failed = result.failed.length > 0
+        ? `\n\n❌ Failed:\n${result.failed.map(f => `  - ${f.path}: ${f.error}`).join('\n')}`
+        : '';
+      const keptIndex = result.legacyIndexKept
+        ? ' Kept .knowledge/KNOWLEDGE.md because some files failed to migrate; fix them and run sc-migrate again.'
+        : '';
+      const cleanup = input.delete
+        ? `\n\nRemoved ${result.deleted.length} legacy file${result.deleted.length !== 1 ? 's' : ''}.${keptIndex}`
+        : '\n\nLegacy files were kept. Run sc-migrate with delete=true to remove them.';
+
+      return `📦 Migrated ${result.migrated.length} legacy skill file${result.migrated.length !== 1 ? 's' : ''}
+
+${lines.join('\n')}${failed}
+
+Index rebuilt with ${result.index.modules} module skill${result.index.modules !== 1 ? 's' : ''}.${cleanup}`;
+    } catch (error) {
+      console.error('[smart-codebase] Migrate command failed:', error);
+      return `❌ Failed to migrate: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  },
+});
@@ -1,60 +1,31 @@
 import { tool } from "@opencode-ai/plugin";
-import { join, dirname } from "path";
-import { findFiles, readTextFile, writeTextFile } from "../utils/fs-compat";
-import { getProjectRootDir } from "../utils/git";
+import { loadIgnoreMatcher } from "../utils/ignore";
+import { loadConfig } from "../config";
+import { getProjectSkillName, rebuildSkillIndex } from "../storage/knowledge-writer";
+import { findLegacySkills } from "../storage/legacy-migration";
 
 export const rebuildIndexCommand = tool({
-  description: "Rebuild global knowledge base index from all SKILL.md files",
+  description: "Rebuild the project skill index (SKILL.md) from all module skill files",
   args: {},
   async execute(_input, ctx) {
     try {
-      const rootDir = await getProjectRootDir(ctx.directory);
-      const skillFiles = await findFiles('**/.knowledge/SKILL.md', {
-        cwd: rootDir,
-        absolute: true,
-      });
-      
-      if (skillFiles.length === 0) {
-        return `📭 No module knowledge files found (.knowledge/SKILL.md)`;
-      }
-      
-      const entries: string[] = [];
-      
-      for (const skillPath of skillFiles) {
-        try {
-          const content = await readTextFile(skillPath);
-          const modulePath = dirname(dirname(skillPath)).replace(rootDir + '/', '');
-          
-          const nameMatch = content.match(/^name:\s*(.+)$/m);
-          const name = nameMatch ? nameMatch[1].trim() : modulePath;
-          
-          const descMatch = content.match(/^description:\s*(.+)$/m);
-          const description = descMatch ? descMatch[1].trim() : `Handles ${name} module.`;
-          
-          entries.push(`### ${name}
-${description}
-- **Location**: \`${modulePath}/.knowledge/SKILL.md\`
-`);
-        } catch (error) {
-          console.warn(`[smart-codebase] Failed to parse ${skillPath}:`, error);
-        }
-      }
-      
-      const indexContent = `# Project Knowledge
+      const projectName = await getProjectSkillName(ctx.directory);
+      const result = await rebuildSkillIndex(ctx.directory);
 
-> Project knowledge index. Read this first to understand available domain knowledge, then read relevant module SKILLs as needed.
+      const isIgnored = loadIgnoreMatcher(ctx.directory, loadConfig(ctx.directory).ignore);
+      const legacyCount = (await findLegacySkills(ctx.directory, isIgnored)).length;
+      const dropped = result.dropped.length > 0
+        ? `\nRemoved entries without a module file: ${result.dropped.join(', ')}`
+        : '';
+      const legacy = legacyCount > 0
+        ? `\n\n⚠️ ${legacyCount} legacy .knowledge/SKILL.md file${legacyCount !== 1 ? 's are' : ' is'} not in the index. Run sc-migrate to move them into module skills.`
+        : '';
 
-${entries.join('\n')}`;
-      
-      const indexPath = join(rootDir, '.knowledge', 'KNOWLEDGE.md');
-      await writeTextFile(indexPath, indexContent);
-      
       return `🔄 Knowledge index rebuilt
 
-Scanned modules: ${skillFiles.length}
-Successfully parsed: ${entries.length}
-Index location: .knowledge/KNOWLEDGE.md`;
-      
+Module skills: ${result.modules}
+Other entries kept: ${result.kept}${dropped}
+Index location: .opencode/skills/${projectName}/SKILL.md${legacy}`;
     } catch (error) {
       console.error('[smart-codebase] Rebuild index command failed:', error);
       return `❌ Rebuild failed: ${error instanceof Error ? error.message : String(error)}`;
@@ -0,0 +1,22 @@
+import { tool } from "@opencode-ai/plugin";
+import { rejectPendingSkill } from "../storage/pending-review";
+
+export const rejectCommand = tool({
+  description: "Reject a pending extracted skill, or some of its sections",
+  args: {
+    skill: tool.schema.string().describe("Pending skill name (e.g. src-auth)"),
+    sections: tool.schema.array(tool.schema.string()).optional().describe("Section headings to reject. Rejects the whole skill when omitted"),
+  },
+  async execute(input, ctx) {
+    try {
+      const outcome = await rejectPendingSkill(ctx.directory, input.skill, input.sections);
+      const sectionsText = outcome.sections.length > 0 ? outcome.sections.join(', ') : '(no sections)';
+      const remainder = outcome.resolved ? '' : '\nRemaining sections are still pending review.';
+
+      return `🗑️ Rejected ${input.skill}: ${sectionsText}${remainder}`;
+    } catch (error) {
+      console.error('[smart-codebase] Reject command failed:', error);
+      return `❌ Failed to reject: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  },
+});
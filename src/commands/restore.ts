@@ -0,0 +1,33 @@
+import { tool } from "@opencode-ai/plugin";
+import { restoreRevision } from "../storage/skill-history";
+
+export const restoreCommand = tool({
+  description: "Restore a module skill to an earlier revision listed by sc-history",
+  args: {
+    skill: tool.schema.string().describe("Module skill name (e.g. src-auth) or module path (e.g. src/auth)"),
+    revision: tool.schema.number().describe("Revision number from sc-history (e.g. 3 for r3)"),
+  },
+  async execute(input, ctx) {
+    try {
+      const { restored, changed, changes } = await restoreRevision(ctx.directory, input.skill, input.revision);
+      if (!changed) {
+        return `✅ ${input.skill} already matches r${restored.revision}`;
+      }
+
+      const lines = [
+        changes.added.length > 0 && `Restored: ${changes.added.join(', ')}`,
+        changes.updated.length > 0 && `Reverted: ${changes.updated.join(', ')}`,
+        changes.removed.length > 0 && `Removed: ${changes.removed.join(', ')}`,
+      ].filter(Boolean);
+      if (lines.length === 0) lines.push('Sections unchanged; name, description or related files restored');
+
+      return `✅ Restored ${input.skill} to r${restored.revision} (${restored.createdAt})
+${lines.join('\n')}
+
+The restore is recorded as a new revision and can be undone with sc-restore as well.`;
+    } catch (error) {
+      console.error('[smart-codebase] Restore command failed:', error);
+      return `❌ Failed to restore: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  },
+});
@@ -0,0 +1,50 @@
+import { tool } from "@opencode-ai/plugin";
+import { listPendingSkills, formatPendingDiff } from "../storage/pending-review";
+import { loadConfig } from "../config";
+
+export const reviewCommand = tool({
+  description: "Show extracted skills waiting for review, with a diff against the current module files",
+  args: {
+    skill: tool.schema.string().optional().describe("Pending skill to show (e.g. src-auth). Shows all when omitted"),
+  },
+  async execute(input, ctx) {
+    try {
+      const config = loadConfig(ctx.directory);
+      const pendingSkills = await listPendingSkills(ctx.directory);
+      const selected = input.skill
+        ? pendingSkills.filter(p => p.key === input.skill)
+        : pendingSkills;
+
+      if (selected.length === 0) {
+        return input.skill
+          ? `No pending skill named "${input.skill}"`
+          : "📭 No skills pending review";
+      }
+
+      const blocks: string[] = [];
+      for (const { key, pending } of selected) {
+        const diff = await formatPendingDiff(ctx.directory, pending, config.skillFormat);
+        const headings = pending.skill.sections.map(s => s.heading).join(', ') || '(none)';
+        const removals = pending.removedSections && pending.removedSections.length > 0
+          ? `\nRemoves: ${pending.removedSections.join(', ')}`
+          : '';
+        blocks.push(`### ${key} (${pending.modulePath})
+Extracted: ${pending.createdAt} from session ${pending.sessionID}
+Sections: ${headings}${removals}
+
+\`\`\`diff
+${diff}
+\`\`\``);
+      }
+
+      return `📝 ${selected.length} skill${selected.length !== 1 ? 's' : ''} pending review
+
+${blocks.join('\n\n')}
+
+Use sc-accept or sc-reject with a skill name, optionally limited to sections.`;
+    } catch (error) {
+      console.error('[smart-codebase] Review command failed:', error);
+      return `❌ Failed to review: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  },
+});
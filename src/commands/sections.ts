@@ -0,0 +1,81 @@
+import { tool } from "@opencode-ai/plugin";
+import { join } from "path";
+import { fileExists, findFiles, readTextFile } from "../utils/fs-compat";
+import { getProjectRootDir } from "../utils/git";
+import {
+  getProjectSkillName,
+  parseModuleSkill,
+  toSkillName,
+  SECTION_KINDS,
+  SECTION_SEVERITIES,
+  type SkillSection,
+} from "../storage/knowledge-writer";
+
+export const sectionsCommand = tool({
+  description: "List knowledge sections across module skills, filtered by module, kind and severity",
+  args: {
+    module: tool.schema.string().optional().describe("Module path or skill name (e.g. src/payments or src-payments). All modules when omitted"),
+    kind: tool.schema.enum(SECTION_KINDS).optional().describe("Only sections of this kind"),
+    severity: tool.schema.enum(SECTION_SEVERITIES).optional().describe("Only sections with at least this severity"),
+  },
+  async execute(input, ctx) {
+    try {
+      const rootDir = await getProjectRootDir(ctx.directory);
+      const projectName = await getProjectSkillName(ctx.directory);
+      const modulesDir = join(rootDir, '.opencode', 'skills', projectName, 'modules');
+
+      if (!(await fileExists(modulesDir))) {
+        return "📭 No module skills found";
+      }
+
+      const wanted = input.module ? toSkillName(input.module.replace(/\/+$/, '')) : undefined;
+      const minSeverity = input.severity ? SECTION_SEVERITIES.indexOf(input.severity) : -1;
+
+      const matches = (section: SkillSection): boolean => {
+        if (input.kind && section.kind !== input.kind) return false;
+        if (minSeverity >= 0) {
+          if (!section.severity || SECTION_SEVERITIES.indexOf(section.severity) < minSeverity) return false;
+        }
+        return true;
+      };
+
+      const files = (await findFiles('*.md', { cwd: modulesDir, absolute: false })).sort();
+      const blocks: string[] = [];
+      let total = 0;
+
+      for (const file of files) {
+        const skillName = file.replace(/\.md$/, '');
+        if (wanted && skillName !== wanted) continue;
+
+        const skill = parseModuleSkill(await readTextFile(join(modulesDir, file)));
+        const sections = skill.sections.filter(matches);
+        if (sections.length === 0) continue;
+
+        total += sections.length;
+        blocks.push(`### ${skillName}\n\n${sections.map(formatSection).join('\n\n')}`);
+      }
+
+      const filterText = [
+        input.kind,
+        input.severity && `severity ≥ ${input.severity}`,
+        input.module && `in ${input.module}`,
+      ].filter(Boolean).join(', ');
+
+      if (total === 0) {
+        return `No sections found${filterText ? ` (${filterText})` : ''}`;
+      }
+
+      return `🔎 ${total} section${total !== 1 ? 's' : ''}${filterText ? ` (${filterText})` : ''}
+
+${blocks.join('\n\n')}`;
+    } catch (error) {
+      console.error('[smart-codebase] Sections command failed:', error);
+      return `❌ Failed to list sections: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  },
+});
+
+function formatSection(section: SkillSection): string {
+  const labels = [section.kind, section.severity, section.pinned && 'pinned'].filter(Boolean).join(' · ');
+  return `#### ${section.heading}${labels ? ` [${labels}]` : ''}\n${section.content}`;
+}
@@ -4,7 +4,11 @@ import type { KnowledgeStats } from "../types";
 import { fileExists, findFiles, readTextFile } from "../utils/fs-compat";
 import { loadConfig } from "../config";
 import { getProjectRootDir, getGitRoot } from "../utils/git";
-import { getProjectSkillName } from "../storage/knowledge-writer";
+import { loadIgnoreMatcher } from "../utils/ignore";
+import { frontmatterMapping, readFrontmatter } from "../utils/frontmatter";
+import { getProjectSkillDir, getProjectSkillName, parseModuleSkill } from "../storage/knowledge-writer";
+import { findLegacySkills } from "../storage/legacy-migration";
+import { getLastBudgetReport, type BudgetReport } from "../storage/extraction-journal";
 
 export const statusCommand = tool({
   description: "Display smart-codebase knowledge base status",
@@ -13,11 +17,13 @@ export const statusCommand = tool({
     try {
       const stats = await getKnowledgeStats(ctx.directory);
       const usageStats = await getUsageStats(ctx.directory);
+      const pinnedCounts = await getPinnedSectionCounts(ctx.directory);
+      const budgetReport = await getLastBudgetReport(ctx.directory).catch(() => undefined);
       const projectName = await getProjectSkillName(ctx.directory);
       const projectRoot = await getProjectRootDir(ctx.directory);
       const gitRoot = await getGitRoot(ctx.directory);
 
-      const indexStatus = stats.hasGlobalIndex ? '✅ exists' : '❌ not created';
+      const indexStatus = stats.hasIndex ? '✅ exists' : '❌ not created';
       const moduleList = stats.modules.length > 0 
         ? stats.modules.map(m => `  - ${m}`).join('\n')
         : '  (none)';
@@ -29,11 +35,17 @@ Project Root: ${projectRoot}
 Git Root:     ${gitRoot || '(not found)'}
 -----------------------------------
 
-Global index (.knowledge/KNOWLEDGE.md): ${indexStatus}
+Project index (.opencode/skills/${projectName}/SKILL.md): ${indexStatus}
 Module count: ${stats.moduleCount}
 
 Modules with knowledge:
 ${moduleList}`;
+
+      if (stats.legacyCount > 0) {
+        output += `
+
+⚠️ ${stats.legacyCount} legacy .knowledge/SKILL.md file${stats.legacyCount !== 1 ? 's' : ''} not migrated yet. Run sc-migrate to move them into module skills.`;
+      }
       
       if (usageStats.totalSkills > 0) {
         output += `
@@ -60,6 +72,21 @@ Usage breakdown:
   - Medium usage (5-10): 0 SKILLs
   - Low usage (<5): 0 SKILLs`;
       }
+
+      const pinnedTotal = pinnedCounts.reduce((sum, p) => sum + p.count, 0);
+      const pinnedList = pinnedCounts.length > 0
+        ? pinnedCounts.map(p => `  - ${p.skill}: ${p.count}`).join('\n')
+        : '  (none)';
+      output += `
+
+📌 Pinned sections: ${pinnedTotal}
+${pinnedList}`;
+
+      if (budgetReport) {
+        output += `
+
+${formatBudgetReport(budgetReport)}`;
+      }
       
       return output;
       
@@ -71,21 +98,22 @@ Usage breakdown:
 });
 
 async function getKnowledgeStats(projectRoot: string): Promise<KnowledgeStats> {
-  const rootDir = await getProjectRootDir(projectRoot);
-  const indexPath = join(rootDir, '.knowledge', 'KNOWLEDGE.md');
-  const hasGlobalIndex = await fileExists(indexPath);
-  
-  const skillFiles = await findFiles('**/.knowledge/SKILL.md', {
-    cwd: rootDir,
-    absolute: false,
-  });
-  
-  const modules = skillFiles.map(f => f.replace('/.knowledge/SKILL.md', ''));
-  
+  const skillDir = await getProjectSkillDir(projectRoot);
+  const hasIndex = await fileExists(join(skillDir, 'SKILL.md'));
+
+  const modulesDir = join(skillDir, 'modules');
+  const modules = (await fileExists(modulesDir))
+    ? (await findFiles('*.md', { cwd: modulesDir, absolute: false })).map(f => f.replace(/\.md$/, '')).sort()
+    : [];
+
+  const isIgnored = loadIgnoreMatcher(projectRoot, loadConfig(projectRoot).ignore);
+  const legacySkills = await findLegacySkills(projectRoot, isIgnored);
+
   return {
-    hasGlobalIndex,
+    hasIndex,
     moduleCount: modules.length,
     modules,
+    legacyCount: legacySkills.length,
   };
 }
 
@@ -100,7 +128,7 @@ interface UsageStats {
 }
 
 async function getUsageStats(projectRoot: string): Promise<UsageStats> {
-  const config = loadConfig();
+  const config = loadConfig(projectRoot);
   const minAccessThreshold = config.cleanupThresholds?.minAccessCount || 5;
   
   const rootDir = await getProjectRootDir(projectRoot);
@@ -163,9 +191,48 @@ async function getUsageStats(projectRoot: string): Promise<UsageStats> {
   };
 }
 
-function extractAccessCount(content: string): number {
-  const match = content.match(/access_count:\s*(\d+)/);
-  if (!match) return 0;
-  return parseInt(match[1], 10);
+async function getPinnedSectionCounts(projectRoot: string): Promise<Array<{ skill: string; count: number }>> {
+  const rootDir = await getProjectRootDir(projectRoot);
+  const skillsDir = join(rootDir, '.opencode', 'skills');
+
+  if (!(await fileExists(skillsDir))) {
+    return [];
+  }
+
+  const moduleSkills = await findFiles('*/modules/*.md', {
+    cwd: skillsDir,
+    absolute: false,
+  });
+
+  const counts: Array<{ skill: string; count: number }> = [];
+  for (const skillFile of moduleSkills.sort()) {
+    try {
+      const content = await readTextFile(join(skillsDir, skillFile));
+      const count = parseModuleSkill(content).sections.filter(s => s.pinned).length;
+      if (count > 0) {
+        counts.push({ skill: skillFile.replace(/^.*\/modules\//, '').replace(/\.md$/, ''), count });
+      }
+    } catch (error) {
+      continue;
+    }
+  }
+
+  return counts;
 }
 
+function formatBudgetReport(report: BudgetReport): string {
+  const kept = report.sections.reduce((sum, s) => sum + s.kept, 0);
+  const lines = report.sections.map(s => {
+    const dropped = s.tokens - s.kept;
+    return `  - ${s.section}: kept ${s.kept} of ${s.tokens} (budget ${s.budget})${dropped > 0 ? `, dropped ${dropped}` : ''}`;
+  });
+
+  return `🧮 Last extraction budget (${new Date(report.timestamp).toISOString()}):
+~${kept} of ${report.maxTokens} tokens used${report.chunked ? ', conversation summarized in windows' : ''}
+${lines.join('\n')}`;
+}
+
+function extractAccessCount(content: string): number {
+  const usage = frontmatterMapping(readFrontmatter(content).data, 'usage');
+  return typeof usage.access_count === 'number' ? usage.access_count : 0;
+}
@@ -0,0 +1,27 @@
+import { tool } from "@opencode-ai/plugin";
+import { undoLastExtraction } from "../storage/undo-journal";
+
+export const undoCommand = tool({
+  description: "Revert the most recent knowledge extraction of this session: module files and index entries it wrote",
+  args: {},
+  async execute(_input, ctx) {
+    try {
+      const result = await undoLastExtraction(ctx.directory, ctx.sessionID);
+
+      const lines = [
+        result.reverted.length > 0 && `Reverted: ${result.reverted.join(', ')}`,
+        result.deleted.length > 0 && `Deleted (created by that extraction): ${result.deleted.join(', ')}`,
+        result.indexRestored.length > 0 && `Index entries restored: ${result.indexRestored.join(', ')}`,
+        result.indexRemoved.length > 0 && `Index entries removed: ${result.indexRemoved.join(', ')}`,
+        result.skipped.length > 0 && `⚠️ Left alone, changed after the extraction: ${result.skipped.join(', ')} (see sc-history)`,
+      ].filter(Boolean);
+      if (lines.length === 0) lines.push('Nothing to revert, the extraction made no changes');
+
+      return `↩️ Undid extraction of ${result.run.createdAt}
+${lines.join('\n')}`;
+    } catch (error) {
+      console.error('[smart-codebase] Undo command failed:', error);
+      return `❌ Failed to undo: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  },
+});
@@ -13,6 +13,21 @@ const DEFAULT_CONFIG: PluginConfig = {
   autoInject: true,
   disabledCommands: [],
   extractionMaxTokens: 8000,
+  chunkedExtraction: true,
+  extractionMaxAttempts: 3,
+  reviewMode: false,
+  lockStaleMs: 30000,
+  historyLimit: 20,
+  redaction: {
+    enabled: true,
+    patterns: [],
+    denyPaths: ["**/.env*", "**/*.pem", "**/*.key", "**/id_rsa*"],
+  },
+  skillFormat: {
+    sectionOrder: "existing",
+    tableOfContents: false,
+    relatedFilesStyle: "list",
+  },
   cleanupThresholds: {
     minAgeDays: 60,
     minAccessCount: 5,
@@ -20,9 +35,10 @@ const DEFAULT_CONFIG: PluginConfig = {
   },
 };
 
-export function loadConfig(): PluginConfig {
-  const configDir = getOpenCodeConfigDir();
-  
+// Project config keys that only identify the project and are not plugin settings
+const PROJECT_IDENTITY_KEYS = ["projectName", "name"];
+
+function readConfigFile(configDir: string): Partial<PluginConfig> | null {
   for (const fileName of CONFIG_FILE_NAMES) {
     const configPath = join(configDir, fileName);
     
@@ -33,13 +49,60 @@ export function loadConfig(): PluginConfig {
     try {
       const content = fs.readFileSync(configPath, "utf-8");
       const cleanJson = stripJsonComments(content);
-      const userConfig = JSON.parse(cleanJson) as Partial<PluginConfig>;
-      return { ...DEFAULT_CONFIG, ...userConfig };
+      return JSON.parse(cleanJson) as Partial<PluginConfig>;
     } catch (error) {
-      console.error(`[smart-codebase] Failed to parse ${fileName}:`, error);
-      return DEFAULT_CONFIG;
+      console.error(`[smart-codebase] Failed to parse ${configPath}:`, error);
+      return null;
     }
   }
   
-  return DEFAULT_CONFIG;
+  return null;
+}
+
+/**
+ * Layer redaction settings. Configured `denyPaths` add to the ones already in place, so
+ * listing one more file never turns off the built-in secret-file protection.
+ */
+function mergeRedaction(
+  base: PluginConfig["redaction"],
+  override: PluginConfig["redaction"] | undefined
+): PluginConfig["redaction"] {
+  return {
+    ...base,
+    ...override,
+    denyPaths: Array.from(new Set([...(base?.denyPaths ?? []), ...(override?.denyPaths ?? [])])),
+  };
+}
+
+/**
+ * Load the user config from the OpenCode config dir. When a project directory is given,
+ * settings from its `.opencode/smart-codebase.json(c)` override the user config.
+ */
+export function loadConfig(projectDir?: string): PluginConfig {
+  const userConfig = readConfigFile(getOpenCodeConfigDir()) ?? {};
+  const config: PluginConfig = {
+    ...DEFAULT_CONFIG,
+    ...userConfig,
+    redaction: mergeRedaction(DEFAULT_CONFIG.redaction, userConfig.redaction),
+  };
+
+  if (!projectDir) {
+    return config;
+  }
+
+  const projectConfig = readConfigFile(join(projectDir, ".opencode"));
+  if (!projectConfig) {
+    return config;
+  }
+
+  const overrides: Record<string, unknown> = { ...projectConfig };
+  for (const key of PROJECT_IDENTITY_KEYS) {
+    delete overrides[key];
+  }
+
+  return {
+    ...config,
+    ...overrides,
+    redaction: mergeRedaction(config.redaction, projectConfig.redaction),
+  };
 }
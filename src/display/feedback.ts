@@ -1,6 +1,38 @@
 import type { ExtractionResult } from '../hooks/knowledge-extractor';
+import type { SectionChanges } from '../storage/knowledge-writer';
+
+function formatSectionCounts(added: number, updated: number, removed: number): string {
+  const parts: string[] = [];
+  if (added > 0) parts.push(`${added} sections added`);
+  if (updated > 0) parts.push(`${updated} updated`);
+  if (removed > 0) parts.push(`${removed} removed`);
+  return parts.length > 0 ? `, ${parts.join(', ')}` : '';
+}
+
+function formatModuleChanges(changes: SectionChanges): string {
+  const parts: string[] = [];
+  if (changes.added.length > 0) parts.push(`+ ${changes.added.join(', ')}`);
+  if (changes.updated.length > 0) parts.push(`~ ${changes.updated.join(', ')}`);
+  if (changes.removed.length > 0) parts.push(`- ${changes.removed.join(', ')}`);
+  if (changes.conflicts.length > 0) parts.push(`⚠️ ${changes.conflicts.length} conflicts`);
+  return parts.length > 0 ? `: ${parts.join('; ')}` : ': no changes';
+}
 
 export function displayExtractionResult(result: ExtractionResult): string {
+  if (result.transientError) {
+    return `❌ Extraction failed: ${result.transientError}`;
+  }
+
+  if (result.validationErrors && result.validationErrors.length > 0) {
+    const errors = result.validationErrors.map(e => `- ${e}`).join('\n');
+    return `⚠️ Extraction output failed validation:\n${errors}`;
+  }
+
+  if (result.modulesStaged > 0) {
+    const stagedText = result.modulesStaged === 1 ? '1 skill' : `${result.modulesStaged} skills`;
+    return `📝 Staged ${stagedText} for review. Run /sc-review to inspect, then /sc-accept or /sc-reject`;
+  }
+
   if (result.modulesUpdated === 0) {
     return "No new knowledge extracted";
   }
@@ -9,11 +41,25 @@ export function displayExtractionResult(result: ExtractionResult): string {
     ? `1 module` 
     : `${result.modulesUpdated} modules`;
   
-  const sectionsText = result.sectionsAdded > 0 
-    ? `, ${result.sectionsAdded} sections added` 
-    : '';
+  const sectionsText = formatSectionCounts(result.sectionsAdded, result.sectionsUpdated, result.sectionsRemoved);
   
   const indexText = result.indexUpdated ? ', index updated' : '';
+
+  const redactionText = result.redactions > 0 ? `, ${result.redactions} items redacted` : '';
   
-  return `✨ Updated ${modulesText}${sectionsText}${indexText}`;
+  const summary = `✨ Updated ${modulesText}${sectionsText}${indexText}${redactionText}`;
+
+  const conflictText = result.conflictsRecorded > 0
+    ? `\n⚠️ ${result.conflictsRecorded} conflict${result.conflictsRecorded !== 1 ? 's' : ''} with existing knowledge. Run /sc-conflicts to resolve`
+    : '';
+
+  if (result.modules.length === 0) {
+    return `${summary}${conflictText}`;
+  }
+
+  const moduleLines = result.modules
+    .map(m => `- ${m.modulePath} (${m.skillName})${formatModuleChanges(m.changes)}`)
+    .join('\n');
+
+  return `${summary}\n${moduleLines}${conflictText}`;
 }
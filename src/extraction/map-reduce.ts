@@ -0,0 +1,143 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+import { estimateTokens, truncateToTokens } from "../utils/tokens";
+import { unwrapData, extractTextFromParts, withTimeout } from "../utils/sdk-helpers";
+
+const MIN_SUMMARY_TOKENS = 150;
+const WINDOW_TIMEOUT_MS = 120000;
+
+// Transcript turns look like "[12] User @ 2026-01-01T00:00:00.000Z"
+const TURN_BOUNDARY = /\n\n(?=\[\d+\] (?:User|Assistant)\b)/;
+
+export interface SummarizeOptions {
+  /** Model for the window prompts, same as the extraction model. */
+  model?: { providerID: string; modelID: string };
+  /** Called before each window is summarized (1-based). */
+  onProgress?: (window: number, total: number) => Promise<void> | void;
+}
+
+/**
+ * Split a transcript into windows of at most `windowTokens`, cutting between turns.
+ * A single turn longer than a window is cut at line boundaries.
+ */
+export function splitTranscript(transcript: string, windowTokens: number): string[] {
+  const turns = transcript.split(TURN_BOUNDARY).flatMap(turn => splitLongText(turn, windowTokens));
+  const windows: string[] = [];
+  let current = '';
+
+  for (const turn of turns) {
+    if (current && estimateTokens(`${current}\n\n${turn}`) > windowTokens) {
+      windows.push(current);
+      current = turn;
+    } else {
+      current = current ? `${current}\n\n${turn}` : turn;
+    }
+  }
+  if (current) windows.push(current);
+
+  return windows;
+}
+
+function splitLongText(text: string, maxTokens: number): string[] {
+  if (estimateTokens(text) <= maxTokens) return [text];
+
+  const parts: string[] = [];
+  let rest = text;
+  while (estimateTokens(rest) > maxTokens) {
+    const prefix = truncateToTokens(rest, maxTokens);
+    const newline = prefix.lastIndexOf('\n');
+    const cut = newline > prefix.length / 2 ? newline : Math.max(1, prefix.length);
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut).replace(/^\n/, '');
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/**
+ * Windows for a transcript whose summaries must fit `budgetTokens` together. When there are
+ * too many windows for each to get `MIN_SUMMARY_TOKENS`, neighbouring windows are merged.
+ */
+function planWindows(transcript: string, budgetTokens: number): string[] {
+  const maxWindows = Math.max(1, Math.floor(budgetTokens / (MIN_SUMMARY_TOKENS + partOverhead(1, 1))));
+  let windowTokens = budgetTokens;
+  let windows = splitTranscript(transcript, windowTokens);
+  while (windows.length > maxWindows) {
+    windowTokens = Math.ceil(windowTokens * windows.length / maxWindows);
+    windows = splitTranscript(transcript, windowTokens);
+  }
+  return windows;
+}
+
+function partHeading(window: number, total: number): string {
+  return `### Part ${window}/${total}`;
+}
+
+/** Tokens a part takes besides its summary: heading and separator. */
+function partOverhead(window: number, total: number): number {
+  return estimateTokens(`${partHeading(window, total)}\n`) + estimateTokens('\n\n');
+}
+
+function buildWindowPrompt(window: number, total: number, maxTokens: number): string {
+  return `You are summarizing part ${window} of ${total} of a long coding session transcript. The summaries of all parts will later be turned into project knowledge.
+
+KEEP, as bullets with these prefixes:
+- DECISION: choices made and why
+- GOTCHA: traps, non-obvious behavior, things that broke
+- FIX: problem → cause → fix
+- PATTERN: conventions and how-tos the user or code established
+- OPEN: unresolved questions
+Also keep the conclusions reached in this part, even if they revise earlier ones.
+
+DROP: chit-chat, exploration that led nowhere, restated code.
+Keep file paths, identifiers and commands exactly as written. Write in the transcript's language.
+At most ${Math.round(maxTokens * 0.75)} words. Reply with the bullets only.`;
+}
+
+/**
+ * Map step of chunked extraction: summarize each window of an over-budget transcript in
+ * its own child session and return the summaries in order, ready for the final synthesis.
+ * The summaries together stay within `budgetTokens`, so none of them is cut off later.
+ */
+export async function summarizeTranscript(
+  ctx: PluginInput,
+  parentSessionID: string,
+  transcript: string,
+  budgetTokens: number,
+  options: SummarizeOptions = {}
+): Promise<string> {
+  const windows = planWindows(transcript, budgetTokens);
+  const summaryTokens = Math.max(1, Math.floor(budgetTokens / windows.length) - partOverhead(windows.length, windows.length));
+  const summaries: string[] = [];
+
+  for (let i = 0; i < windows.length; i++) {
+    await options.onProgress?.(i + 1, windows.length);
+
+    const created = await ctx.client.session.create({
+      body: { title: `Knowledge Extraction (part ${i + 1}/${windows.length})`, parentID: parentSessionID },
+    });
+    const windowSessionID = (unwrapData(created as any) as { id: string }).id;
+
+    try {
+      const response = unwrapData(await withTimeout(
+        ctx.client.session.prompt({
+          path: { id: windowSessionID },
+          body: {
+            ...(options.model && { model: options.model }),
+            system: buildWindowPrompt(i + 1, windows.length, summaryTokens),
+            parts: [{ type: 'text', text: windows[i] }],
+          },
+        }),
+        WINDOW_TIMEOUT_MS
+      ) as any) as { parts: any[] };
+
+      // The model may ignore the length limit; cut its summary rather than a later part
+      const summary = truncateToTokens(extractTextFromParts(response.parts).trim(), summaryTokens).trimEnd();
+      summaries.push(`${partHeading(i + 1, windows.length)}\n${summary || '(nothing to keep)'}`);
+    } finally {
+      await ctx.client.session.delete({ path: { id: windowSessionID } }).catch(() => {});
+    }
+  }
+
+  console.log(`[smart-codebase] Summarized ${windows.length} transcript windows (~${estimateTokens(transcript)} → ~${estimateTokens(summaries.join('\n\n'))} tokens)`);
+  return summaries.join('\n\n');
+}
@@ -0,0 +1,183 @@
+import { isAbsolute, relative, resolve } from "path";
+import { realpath } from "fs/promises";
+import type { PluginConfig, PromptProfile } from "../types";
+import { fileExists, readTextFile } from "../utils/fs-compat";
+import { matchesGlob } from "../utils/glob";
+import { createRedactor, type Redactor } from "../preprocessing/redaction";
+import type { SkillLimits } from "./skill-schema";
+
+export const DEFAULT_FOCUS = `EXTRACT when: implementation patterns, design decisions, gotchas, bug fixes with explanations, user-described features.
+SKIP when: pure config changes, trivial edits (typos, formatting), no actionable knowledge.`;
+
+export interface NamedProfile extends PromptProfile {
+  name: string;
+}
+
+export interface ProfileGuidance {
+  /** EXTRACT/SKIP guidance for the whole prompt (default profile or built-in). */
+  focus: string;
+  /** Extra rules and instructions from the default profile, empty when there are none. */
+  defaultInstructions: string;
+  /** Per-module instructions for modules matched by a non-default profile. */
+  moduleGuidance: string;
+  /** Length limits per module path, passed to output validation. */
+  limits: Record<string, SkillLimits>;
+}
+
+function toRelative(file: string, projectRoot: string): string {
+  return isAbsolute(file) ? relative(projectRoot, file) : file;
+}
+
+/**
+ * Pick the profile for each module: the first profile (in config order) whose `modules`
+ * globs match the module path or one of its touched files, otherwise the default profile.
+ */
+export function resolveModuleProfiles(
+  config: PluginConfig | undefined,
+  projectRoot: string,
+  moduleGroups: Map<string, string[]>
+): { defaultProfile?: NamedProfile; modules: Map<string, NamedProfile> } {
+  const profiles = config?.promptProfiles ?? {};
+  const defaultName = config?.promptProfile;
+  let defaultProfile: NamedProfile | undefined;
+
+  if (defaultName) {
+    if (profiles[defaultName]) {
+      defaultProfile = { ...profiles[defaultName], name: defaultName };
+    } else {
+      console.error(`[smart-codebase] Unknown prompt profile "${defaultName}", using the built-in prompt`);
+    }
+  }
+
+  const modules = new Map<string, NamedProfile>();
+  for (const [modulePath, files] of moduleGroups) {
+    const candidates = [modulePath, ...files.map(f => toRelative(f, projectRoot))];
+    const match = Object.entries(profiles).find(([, profile]) =>
+      (profile.modules ?? []).some(glob => candidates.some(path => matchesGlob(path, glob)))
+    );
+
+    if (match) {
+      modules.set(modulePath, { ...match[1], name: match[0] });
+    } else if (defaultProfile) {
+      modules.set(modulePath, defaultProfile);
+    }
+  }
+
+  return { defaultProfile, modules };
+}
+
+function isInside(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel !== '' && !rel.startsWith('..') && !isAbsolute(rel);
+}
+
+/**
+ * Instructions from a profile's prompt file. The setting may come from a committed project
+ * config, so only files inside the project are read (symlinks included), denied paths are
+ * refused and the content is redacted like everything else sent to the model.
+ */
+async function readPromptFile(profile: NamedProfile, projectRoot: string, redactor: Redactor): Promise<string> {
+  if (!profile.promptFile) return '';
+
+  const promptPath = resolve(projectRoot, profile.promptFile);
+  if (!isInside(projectRoot, promptPath) || redactor.isDeniedPath(promptPath)) {
+    console.error(`[smart-codebase] Refusing prompt file for profile "${profile.name}" outside the project or denied: ${profile.promptFile}`);
+    return '';
+  }
+
+  try {
+    if (!(await fileExists(promptPath))) {
+      console.error(`[smart-codebase] Prompt file for profile "${profile.name}" not found: ${promptPath}`);
+      return '';
+    }
+    if (!isInside(await realpath(projectRoot), await realpath(promptPath))) {
+      console.error(`[smart-codebase] Refusing prompt file for profile "${profile.name}" that links outside the project: ${profile.promptFile}`);
+      return '';
+    }
+    return redactor.redact((await readTextFile(promptPath)).trim()).text;
+  } catch (error) {
+    console.error(`[smart-codebase] Failed to read prompt file ${promptPath}:`, error);
+    return '';
+  }
+}
+
+async function formatInstructions(
+  profile: NamedProfile,
+  projectRoot: string,
+  includeFocus: boolean,
+  redactor: Redactor
+): Promise<string> {
+  const lines: string[] = [];
+
+  if (includeFocus && profile.focus) {
+    lines.push(`Focus: ${profile.focus}`);
+  }
+  const vocabulary = Object.entries(profile.vocabulary ?? {});
+  if (vocabulary.length > 0) {
+    lines.push('Vocabulary (use these terms consistently):');
+    lines.push(...vocabulary.map(([term, meaning]) => `  - ${term}: ${meaning}`));
+  }
+  if (profile.tone) {
+    lines.push(`Tone: ${profile.tone}`);
+  }
+  if (profile.maxSections) {
+    lines.push(`At most ${profile.maxSections} sections per skill.`);
+  }
+  if (profile.maxSectionLength) {
+    lines.push(`Each section content at most ${profile.maxSectionLength} characters.`);
+  }
+
+  const fileInstructions = await readPromptFile(profile, projectRoot, redactor);
+  if (fileInstructions) {
+    lines.push(fileInstructions);
+  }
+
+  return lines.join('\n');
+}
+
+function toLimits(profile: NamedProfile): SkillLimits | undefined {
+  if (!profile.maxSections && !profile.maxSectionLength) return undefined;
+  return { maxSections: profile.maxSections, maxSectionLength: profile.maxSectionLength };
+}
+
+/**
+ * Build the profile-specific parts of the extraction prompt for the touched modules.
+ * Without any configured profiles this returns the built-in focus and nothing else.
+ */
+export async function buildProfileGuidance(
+  config: PluginConfig | undefined,
+  projectRoot: string,
+  moduleGroups: Map<string, string[]>
+): Promise<ProfileGuidance> {
+  const { defaultProfile, modules } = resolveModuleProfiles(config, projectRoot, moduleGroups);
+  const limits: Record<string, SkillLimits> = {};
+  const redactor = createRedactor(config?.redaction, projectRoot);
+
+  const focus = defaultProfile?.focus
+    ? `EXTRACT: ${defaultProfile.focus}\nSKIP when: trivial edits (typos, formatting), no actionable knowledge.`
+    : DEFAULT_FOCUS;
+  const defaultInstructions = defaultProfile
+    ? await formatInstructions(defaultProfile, projectRoot, false, redactor)
+    : '';
+
+  const moduleBlocks: string[] = [];
+  for (const [modulePath, profile] of modules) {
+    const moduleLimits = toLimits(profile);
+    if (moduleLimits) {
+      limits[modulePath] = moduleLimits;
+    }
+    if (profile === defaultProfile) continue;
+
+    const instructions = await formatInstructions(profile, projectRoot, true, redactor);
+    if (instructions) {
+      moduleBlocks.push(`Module "${modulePath}" (profile ${profile.name}):\n${instructions}`);
+    }
+  }
+
+  return {
+    focus,
+    defaultInstructions,
+    moduleGuidance: moduleBlocks.join('\n\n'),
+    limits,
+  };
+}
@@ -0,0 +1,298 @@
+/**
+ * Schema for the skill payload returned by the extraction model.
+ * Validation errors are phrased so they can be sent back to the model verbatim.
+ */
+
+import {
+  SECTION_KINDS,
+  SECTION_SEVERITIES,
+  isSectionKind,
+  isSectionSeverity,
+  type SectionKind,
+  type SectionSeverity,
+} from '../storage/knowledge-writer';
+
+export const SKILL_NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+export const MAX_SKILL_NAME_LENGTH = 64;
+export const MAX_DESCRIPTION_LENGTH = 300;
+
+export interface ExtractedSection {
+  heading: string;
+  content: string;
+  kind?: SectionKind;
+  severity?: SectionSeverity;
+}
+
+export interface ExtractedSkill {
+  modulePath: string;
+  name: string;
+  description: string;
+  sections: ExtractedSection[];
+  relatedFiles: string[];
+  /** Headings of existing sections the model wants deleted. */
+  removedSections: string[];
+  /** Claims that contradict existing sections, left for a human to resolve. */
+  conflicts: ExtractedConflict[];
+}
+
+export interface ExtractedConflict {
+  section: string;
+  existing: string;
+  proposed: string;
+  evidence?: string;
+}
+
+export type ValidationResult =
+  | { ok: true; skills: ExtractedSkill[] }
+  | { ok: false; errors: string[] };
+
+export interface SkillLimits {
+  maxSections?: number;
+  maxSectionLength?: number;
+}
+
+export interface ValidationOptions {
+  /** Module paths the model is allowed to write to. Unchecked when omitted. */
+  allowedModules?: string[];
+  /** Per-module length limits from prompt profiles, keyed by module path. */
+  limits?: Record<string, SkillLimits>;
+}
+
+/**
+ * Pull the JSON object out of a model reply that may wrap it in a code fence
+ * or surround it with prose. Returns null when no object can be found.
+ */
+export function extractJsonFromText(text: string): string | null {
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  if (fenced && fenced[1].trim().startsWith('{')) {
+    return fenced[1].trim();
+  }
+
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return text.slice(start, i + 1);
+      }
+    }
+  }
+
+  return null;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function validateSkill(raw: unknown, path: string, options: ValidationOptions, errors: string[]): ExtractedSkill | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push(`${path}: must be an object`);
+    return null;
+  }
+
+  const s = raw as Record<string, unknown>;
+  const before = errors.length;
+
+  if (!isNonEmptyString(s.modulePath)) {
+    errors.push(`${path}.modulePath: required non-empty string`);
+  } else if (options.allowedModules && !options.allowedModules.includes(s.modulePath)) {
+    errors.push(`${path}.modulePath: "${s.modulePath}" is not one of the touched modules (${options.allowedModules.join(', ')})`);
+  }
+
+  if (!isNonEmptyString(s.name)) {
+    errors.push(`${path}.name: required non-empty string`);
+  } else if (s.name.length > MAX_SKILL_NAME_LENGTH) {
+    errors.push(`${path}.name: must be at most ${MAX_SKILL_NAME_LENGTH} characters (got ${s.name.length})`);
+  } else if (!SKILL_NAME_PATTERN.test(s.name)) {
+    errors.push(`${path}.name: must be lowercase letters, digits and single hyphens (got "${s.name}")`);
+  }
+
+  if (!isNonEmptyString(s.description)) {
+    errors.push(`${path}.description: required non-empty string`);
+  } else if (s.description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.push(`${path}.description: must be at most ${MAX_DESCRIPTION_LENGTH} characters (got ${s.description.length})`);
+  }
+
+  const limits = typeof s.modulePath === 'string' ? options.limits?.[s.modulePath] : undefined;
+
+  if (!Array.isArray(s.sections)) {
+    errors.push(`${path}.sections: must be an array`);
+  } else {
+    if (limits?.maxSections && s.sections.length > limits.maxSections) {
+      errors.push(`${path}.sections: must have at most ${limits.maxSections} sections (got ${s.sections.length})`);
+    }
+    s.sections.forEach((sec: any, i: number) => {
+      const secPath = `${path}.sections[${i}]`;
+      if (!sec || typeof sec !== 'object') {
+        errors.push(`${secPath}: must be an object with heading and content`);
+        return;
+      }
+      if (!isNonEmptyString(sec.heading)) {
+        errors.push(`${secPath}.heading: required non-empty string`);
+      }
+      if (!isNonEmptyString(sec.content)) {
+        errors.push(`${secPath}.content: required non-empty string`);
+      } else if (limits?.maxSectionLength && sec.content.length > limits.maxSectionLength) {
+        errors.push(`${secPath}.content: must be at most ${limits.maxSectionLength} characters (got ${sec.content.length})`);
+      }
+      if (sec.kind !== undefined && !isSectionKind(sec.kind)) {
+        errors.push(`${secPath}.kind: must be one of ${SECTION_KINDS.join(', ')} (got "${sec.kind}")`);
+      }
+      if (sec.severity !== undefined && !isSectionSeverity(sec.severity)) {
+        errors.push(`${secPath}.severity: must be one of ${SECTION_SEVERITIES.join(', ')} (got "${sec.severity}")`);
+      }
+    });
+  }
+
+  if (s.relatedFiles !== undefined) {
+    if (!Array.isArray(s.relatedFiles) || !s.relatedFiles.every(f => typeof f === 'string')) {
+      errors.push(`${path}.relatedFiles: must be an array of strings`);
+    }
+  }
+
+  if (s.removedSections !== undefined) {
+    if (!Array.isArray(s.removedSections) || !s.removedSections.every(isNonEmptyString)) {
+      errors.push(`${path}.removedSections: must be an array of section headings`);
+    }
+  }
+
+  if (s.conflicts !== undefined) {
+    if (!Array.isArray(s.conflicts)) {
+      errors.push(`${path}.conflicts: must be an array`);
+    } else {
+      s.conflicts.forEach((c: any, i: number) => {
+        const conflictPath = `${path}.conflicts[${i}]`;
+        if (!c || typeof c !== 'object') {
+          errors.push(`${conflictPath}: must be an object with section, existing and proposed`);
+          return;
+        }
+        for (const field of ['section', 'existing', 'proposed']) {
+          if (!isNonEmptyString(c[field])) {
+            errors.push(`${conflictPath}.${field}: required non-empty string`);
+          }
+        }
+        if (c.evidence !== undefined && typeof c.evidence !== 'string') {
+          errors.push(`${conflictPath}.evidence: must be a string`);
+        }
+      });
+    }
+  }
+
+  if (errors.length > before) return null;
+
+  return {
+    modulePath: s.modulePath as string,
+    name: s.name as string,
+    description: s.description as string,
+    sections: (s.sections as ExtractedSection[]).map(sec => ({
+      heading: sec.heading,
+      content: sec.content,
+      ...(sec.kind && { kind: sec.kind }),
+      ...(sec.severity && { severity: sec.severity }),
+    })),
+    relatedFiles: (s.relatedFiles as string[] | undefined) ?? [],
+    removedSections: (s.removedSections as string[] | undefined) ?? [],
+    conflicts: ((s.conflicts as ExtractedConflict[] | undefined) ?? []).map(c => ({
+      section: c.section,
+      existing: c.existing,
+      proposed: c.proposed,
+      ...(c.evidence && { evidence: c.evidence }),
+    })),
+  };
+}
+
+/**
+ * Validate a parsed extraction payload. Accepts {"skills": [...]} and the
+ * legacy {"skill": {...} | null} shape.
+ */
+export function validateExtractionPayload(payload: unknown, options: ValidationOptions = {}): ValidationResult {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return { ok: false, errors: ['root: must be a JSON object with a "skills" array'] };
+  }
+
+  const root = payload as Record<string, unknown>;
+  let rawSkills: unknown[];
+  let basePath: string;
+
+  if ('skills' in root) {
+    if (!Array.isArray(root.skills)) {
+      return { ok: false, errors: ['skills: must be an array'] };
+    }
+    rawSkills = root.skills;
+    basePath = 'skills';
+  } else if ('skill' in root) {
+    rawSkills = root.skill === null ? [] : [root.skill];
+    basePath = 'skill';
+  } else {
+    return { ok: false, errors: ['root: missing "skills" array'] };
+  }
+
+  const errors: string[] = [];
+  const skills: ExtractedSkill[] = [];
+  const seenModules = new Set<string>();
+
+  rawSkills.forEach((raw, i) => {
+    const path = basePath === 'skills' ? `skills[${i}]` : 'skill';
+    const skill = validateSkill(raw, path, options, errors);
+    if (!skill) return;
+
+    if (seenModules.has(skill.modulePath)) {
+      errors.push(`${path}.modulePath: duplicate module "${skill.modulePath}", merge into one skill`);
+      return;
+    }
+    seenModules.add(skill.modulePath);
+    skills.push(skill);
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, skills };
+}
+
+/**
+ * Extract, parse and validate a raw model reply in one step.
+ */
+export function parseExtractionResponse(text: string, options: ValidationOptions = {}): ValidationResult {
+  const json = extractJsonFromText(text);
+  if (!json) {
+    return { ok: false, errors: ['reply: no JSON object found'] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return { ok: false, errors: [`reply: invalid JSON (${error instanceof Error ? error.message : String(error)})`] };
+  }
+
+  return validateExtractionPayload(parsed, options);
+}
+
+export function formatRepairPrompt(errors: string[]): string {
+  return `Your previous reply failed validation:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Fix every error and output the complete corrected SKILLS JSON. Return ONLY valid JSON.`;
+}
@@ -1,7 +1,7 @@
 import type { PluginInput, Hooks } from "@opencode-ai/plugin";
 import type { PluginConfig } from "../types";
 import { join } from "path";
-import { fileExists } from "../utils/fs-compat";
+import { fileExists, readTextFile } from "../utils/fs-compat";
 import { getProjectSkillName } from "../storage/knowledge-writer";
 import { getProjectRootDir } from "../utils/git";
 
@@ -9,6 +9,17 @@ type ChatMessageInput = Parameters<NonNullable<Hooks["chat.message"]>>[0];
 type ChatMessageOutput = Parameters<NonNullable<Hooks["chat.message"]>>[1];
 type EventInput = Parameters<NonNullable<Hooks["event"]>>[0];
 
+/**
+ * Sum the gotcha counts from the "- **Kinds**:" lines of the skill index.
+ */
+function countIndexedGotchas(indexContent: string): number {
+  let total = 0;
+  for (const match of indexContent.matchAll(/^- \*\*Kinds\*\*:.*?(\d+) gotcha\b/gm)) {
+    total += parseInt(match[1], 10);
+  }
+  return total;
+}
+
 export function createContextInjectorHook(ctx: PluginInput, config?: PluginConfig) {
   const sessionKnowledgeInjected = new Set<string>();
 
@@ -35,10 +46,15 @@ export function createContextInjectorHook(ctx: PluginInput, config?: PluginConfi
         return;
       }
 
+      const gotchaCount = countIndexedGotchas(await readTextFile(skillPath));
+      const gotchaHint = gotchaCount > 0
+        ? ` The index lists ${gotchaCount} gotcha section${gotchaCount !== 1 ? 's' : ''} (marked \`> **gotcha**\`); read the gotchas of modules you'll modify before editing.`
+        : '';
+
       const knowledgeHint = `
 
 ---
-**[REQUIRED FIRST STEP]** Before any other action, read \`.opencode/skills/${skillName}/SKILL.md\` to discover available project knowledge. Then read relevant \`.knowledge/SKILL.md\` files for modules you'll modify. Do NOT skip this step.
+**[REQUIRED FIRST STEP]** Before any other action, read \`.opencode/skills/${skillName}/SKILL.md\` to discover available project knowledge. Then read the module skills (\`.opencode/skills/${skillName}/modules/*.md\`) of modules you'll modify. Do NOT skip this step.${gotchaHint}
 ---
 
 `;
@@ -2,29 +2,72 @@ import type { PluginInput, Hooks } from "@opencode-ai/plugin";
 import type { PluginConfig, ToolCallRecord } from "../types";
 import { join } from "path";
 import { 
-  writeModuleSkill, 
+  mergeModuleSkill, 
   updateSkillIndex,
   getModulePath,
-  getProjectSkillName,
+  getModuleSkillPath,
+  parseModuleSkill,
+  countSectionKinds,
+  getConflictId,
+  SECTION_KINDS,
+  SECTION_SEVERITIES,
   toSkillName,
   type SkillContent,
-  type IndexEntry
+  type IndexEntry,
+  type SectionChanges
 } from "../storage/knowledge-writer";
 import { unwrapData, extractTextFromParts, withTimeout } from "../utils/sdk-helpers";
 import { fileExists, readTextFile } from "../utils/fs-compat";
-import { getProjectRootDir } from "../utils/git";
 import { displayExtractionResult } from "../display/feedback";
-import { preprocessSessionSummary } from "../preprocessing/session-summary";
-
+import { preprocessSessionSummary, DEFAULT_MAX_TOKENS } from "../preprocessing/session-summary";
+import { createRedactor } from "../preprocessing/redaction";
+import { createToolCallRecord, describeToolCall, getEditedFiles, getReadOnlyFiles, isIgnoredToolCall } from "../preprocessing/tool-calls";
+import { createIgnoreMatcher, DEFAULT_IGNORE_PATTERNS, loadIgnoreMatcher, type IgnoreMatcher } from "../utils/ignore";
+import { stagePendingSkill } from "../storage/pending-review";
+import { recordExtractionRun, type UndoModuleChange } from "../storage/undo-journal";
+import { buildProfileGuidance } from "../extraction/prompt-profiles";
+import { summarizeTranscript } from "../extraction/map-reduce";
+import { parseExtractionResponse, formatRepairPrompt, type ExtractedSkill } from "../extraction/skill-schema";
+import {
+  readJournal,
+  appendToolCall,
+  scheduleExtractionJob,
+  markExtractionRunning,
+  recordExtractionFailure,
+  clearExtractionJob,
+  clearJournalSession,
+  completeExtraction,
+  getExtractionWatermark,
+  recordSessionBaseline,
+  getSessionBaseline,
+  recordBudgetReport,
+} from "../storage/extraction-journal";
+import { getHeadSha, snapshotWorkingTree } from "../utils/git";
+
+type ToolExecuteBeforeInput = Parameters<NonNullable<Hooks["tool.execute.before"]>>[0];
 type ToolExecuteAfterInput = Parameters<NonNullable<Hooks["tool.execute.after"]>>[0];
 type ToolExecuteAfterOutput = Parameters<NonNullable<Hooks["tool.execute.after"]>>[1];
 type EventInput = Parameters<NonNullable<Hooks["event"]>>[0];
 
 const sessionDebounceTimers = new Map<string, NodeJS.Timeout>();
 const sessionToolCalls = new Map<string, ToolCallRecord[]>();
+// Start time per tool call ID, used for durations
+const toolCallStarts = new Map<string, number>();
+// Start baseline capture per session, started at most once by this process
+const sessionBaselines = new Map<string, Promise<void>>();
 const sessionExtractionInProgress = new Map<string, boolean>();
 const sessionToastShown = new Map<string, boolean>();
 
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RESUME_DELAY_MS = 5000;
+
+// Project directory used by the journal for calls that don't carry a PluginInput
+let journalRoot: string | undefined;
+
+function logJournalError(error: unknown): void {
+  console.error(`[smart-codebase] Failed to update extraction journal:`, error);
+}
+
 function getToolCalls(sessionID: string): ToolCallRecord[] {
   if (!sessionToolCalls.has(sessionID)) {
     sessionToolCalls.set(sessionID, []);
@@ -32,6 +75,56 @@ function getToolCalls(sessionID: string): ToolCallRecord[] {
   return sessionToolCalls.get(sessionID)!;
 }
 
+/**
+ * Forget the first `count` tracked calls of a session once an extraction has covered them.
+ */
+function consumeToolCalls(sessionID: string, count: number): void {
+  const remaining = sessionToolCalls.get(sessionID)?.slice(count) ?? [];
+  if (remaining.length > 0) {
+    sessionToolCalls.set(sessionID, remaining);
+  } else {
+    sessionToolCalls.delete(sessionID);
+  }
+}
+
+/**
+ * Snapshot HEAD and the working tree the first time a session is seen, so extraction
+ * diffs leave out changes that were already in the tree before the session started.
+ * Returns the capture, started at most once per session; a baseline already in the
+ * journal (from before a restart) is kept without a new snapshot.
+ */
+function captureSessionBaseline(projectRoot: string, sessionID: string): Promise<void> {
+  const pending = sessionBaselines.get(sessionID);
+  if (pending) return pending;
+
+  const capture = (async () => {
+    if (await getSessionBaseline(projectRoot, sessionID)) return;
+
+    const [head, tree] = await Promise.all([getHeadSha(projectRoot), snapshotWorkingTree(projectRoot)]);
+    if (!head && !tree) return;
+
+    await recordSessionBaseline(projectRoot, sessionID, {
+      head: head ?? undefined,
+      tree: tree ?? undefined,
+      createdAt: Date.now(),
+    });
+  })().catch(logJournalError);
+
+  sessionBaselines.set(sessionID, capture);
+  return capture;
+}
+
+async function showProgressToast(ctx: PluginInput, message: string): Promise<void> {
+  await ctx.client.tui.showToast({
+    body: {
+      title: "smart-codebase",
+      message,
+      variant: "info",
+      duration: 5000,
+    },
+  }).catch(() => {});
+}
+
 function parseModelConfig(modelString?: string): { providerID: string; modelID: string } | undefined {
   if (!modelString) return undefined;
   const [providerID, ...rest] = modelString.split('/');
@@ -40,10 +133,109 @@ function parseModelConfig(modelString?: string): { providerID: string; modelID:
   return { providerID, modelID };
 }
 
+export interface ModuleExtractionResult {
+  modulePath: string;
+  skillName: string;
+  sectionsAdded: number;
+  /** Section headings added, updated and removed by the merge. */
+  changes: SectionChanges;
+}
+
 export interface ExtractionResult {
   modulesUpdated: number;
+  /** Skills written to the pending review area instead of the module files (reviewMode). */
+  modulesStaged: number;
   sectionsAdded: number;
+  sectionsUpdated: number;
+  sectionsRemoved: number;
+  /** Contradictions with existing knowledge recorded for sc-conflicts. */
+  conflictsRecorded: number;
   indexUpdated: boolean;
+  modules: ModuleExtractionResult[];
+  /** Errors from the last failed validation attempt, when extraction gave up. */
+  validationErrors?: string[];
+  /** Secrets/PII items redacted from the prompt and from the written skills. */
+  redactions: number;
+  /** Set when extraction failed for a reason worth retrying (model/session errors). */
+  transientError?: string;
+}
+
+function emptyResult(): ExtractionResult {
+  return {
+    modulesUpdated: 0,
+    modulesStaged: 0,
+    sectionsAdded: 0,
+    sectionsUpdated: 0,
+    sectionsRemoved: 0,
+    conflictsRecorded: 0,
+    indexUpdated: false,
+    modules: [],
+    redactions: 0,
+  };
+}
+
+/**
+ * Group touched files by the module that owns them (see getModulePath), leaving out
+ * ignored files. Insertion order follows the first time each module was touched.
+ */
+export function groupFilesByModule(
+  files: string[],
+  projectRoot: string,
+  isIgnored: IgnoreMatcher = createIgnoreMatcher(DEFAULT_IGNORE_PATTERNS, projectRoot)
+): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+  for (const file of files) {
+    if (isIgnored(file)) continue;
+    const modulePath = getModulePath(file, projectRoot);
+    if (!groups.has(modulePath)) {
+      groups.set(modulePath, []);
+    }
+    groups.get(modulePath)!.push(file);
+  }
+  return groups;
+}
+
+/**
+ * Current skill for a module: the module file under .opencode/skills first (project-root.md
+ * for '.'), then the legacy <module>/.knowledge/SKILL.md.
+ */
+async function loadExistingModuleSkill(
+  projectRoot: string,
+  modulePath: string
+): Promise<{ path: string; content: string } | null> {
+  const candidates = [
+    await getModuleSkillPath(projectRoot, modulePath),
+    join(projectRoot, modulePath, '.knowledge', 'SKILL.md'),
+  ];
+
+  for (const candidate of candidates) {
+    if (await fileExists(candidate)) {
+      return { path: candidate, content: await readTextFile(candidate) };
+    }
+  }
+  return null;
+}
+
+function toSkillContent(s: ExtractedSkill): SkillContent {
+  return {
+    metadata: {
+      name: s.name,
+      description: s.description
+    },
+    sections: s.sections.map(sec => ({
+      heading: sec.heading,
+      content: sec.content,
+      ...(sec.kind && { kind: sec.kind }),
+      ...(sec.severity && { severity: sec.severity }),
+    })),
+    relatedFiles: s.relatedFiles,
+    ...(s.conflicts.length > 0 && {
+      conflicts: s.conflicts.map(c => ({
+        id: getConflictId(c.section, c.existing, c.proposed),
+        ...c,
+      })),
+    }),
+  };
 }
 
 export async function extractKnowledge(
@@ -53,31 +245,69 @@ export async function extractKnowledge(
 ): Promise<ExtractionResult> {
   if (sessionExtractionInProgress.get(sessionID)) {
     console.log(`[smart-codebase] Extraction already in progress for session ${sessionID}, skipping`);
-    return { modulesUpdated: 0, sectionsAdded: 0, indexUpdated: false };
+    return emptyResult();
   }
 
   sessionExtractionInProgress.set(sessionID, true);
 
   let extractionSessionID: string | undefined;
-  const result: ExtractionResult = { modulesUpdated: 0, sectionsAdded: 0, indexUpdated: false };
+  const result: ExtractionResult = emptyResult();
 
   try {
-     const toolCalls = sessionToolCalls.get(sessionID);
+     // Rules may have changed since the calls were tracked, so apply them again
+     const isIgnored = loadIgnoreMatcher(ctx.directory, config?.ignore);
+     // Calls tracked from here on are left for the next run
+     const consumedCalls = sessionToolCalls.get(sessionID)?.length ?? 0;
+     const toolCalls = sessionToolCalls.get(sessionID)?.filter(tc => !isIgnoredToolCall(tc, isIgnored));
 
      if (!toolCalls || toolCalls.length === 0) {
        console.log(`[smart-codebase] No tool calls tracked in session ${sessionID}, skipping extraction`);
        return result;
      }
 
-      const modifiedFiles = new Set(toolCalls.map(tc => tc.target).filter((t): t is string => !!t));
+      // Modules are picked from files actually read or edited; commands and search patterns aren't paths
+      const modifiedFiles = new Set([...getEditedFiles(toolCalls), ...getReadOnlyFiles(toolCalls)]);
       
       console.log(`[smart-codebase] Knowledge extraction triggered for session ${sessionID}`);
       console.log(`[smart-codebase] Tool calls tracked (${toolCalls.length}), files involved (${modifiedFiles.size}):`, Array.from(modifiedFiles));
 
+     const watermark = await getExtractionWatermark(ctx.directory, sessionID).catch((error) => {
+       logJournalError(error);
+       return undefined;
+     });
+
+     await sessionBaselines.get(sessionID);
+     const baseline = await getSessionBaseline(ctx.directory, sessionID).catch((error) => {
+       logJournalError(error);
+       return undefined;
+     });
+
+     const model = parseModelConfig(config?.extractionModel);
+     const summarizeConversation = config?.chunkedExtraction === false
+       ? undefined
+       : (transcript: string, budgetTokens: number) => summarizeTranscript(ctx, sessionID, transcript, budgetTokens, {
+           model,
+           onProgress: (window, total) => showProgressToast(ctx, `Long session: summarizing part ${window}/${total}...`),
+         });
+
      const preprocessed = await preprocessSessionSummary(ctx, sessionID, toolCalls, {
        maxTokens: config?.extractionMaxTokens,
+       watermark,
+       baseline,
+       redaction: config?.redaction,
+       budgets: config?.extractionBudgets,
+       ignore: isIgnored,
+       summarizeConversation,
      });
-     console.log(`[smart-codebase] Pre-processed summary: ${preprocessed.totalTokens} tokens${preprocessed.truncated ? ' (truncated)' : ''}`);
+     await recordBudgetReport(ctx.directory, {
+       sessionID,
+       timestamp: Date.now(),
+       maxTokens: config?.extractionMaxTokens ?? DEFAULT_MAX_TOKENS,
+       chunked: preprocessed.chunked,
+       sections: preprocessed.budget,
+     }).catch(logJournalError);
+     result.redactions += preprocessed.redactions;
+     console.log(`[smart-codebase] Pre-processed summary: ${preprocessed.totalTokens} tokens${preprocessed.chunked ? ' (chunked)' : ''}${preprocessed.truncated ? ' (truncated)' : ''}`);
 
      const createResult = await ctx.client.session.create({
        body: {
@@ -88,6 +318,7 @@ export async function extractKnowledge(
 
      if (createResult.error) {
        console.error('[smart-codebase] Failed to create extraction session:', createResult.error);
+       result.transientError = `Failed to create extraction session: ${String(createResult.error)}`;
        return result;
      }
 
@@ -95,163 +326,253 @@ export async function extractKnowledge(
      console.log(`[smart-codebase] Created extraction session: ${extractionSessionID}`);
      
      // Show toast when subsession is created
-     await ctx.client.tui.showToast({
-       body: {
-         title: "smart-codebase",
-         message: "Creating knowledge extraction subsession, starting analysis...",
-         variant: "info",
-         duration: 5000,
-       },
-     }).catch(() => {});
-
-     const primaryFile = Array.from(modifiedFiles)[0];
-     let existingSkillContent = '';
-
-     try {
-       const rootDir = await getProjectRootDir(ctx.directory);
-       const skillName = await getProjectSkillName(ctx.directory);
-       const skillPath = join(rootDir, '.opencode', 'skills', skillName, 'SKILL.md');
-       const hasSkill = await fileExists(skillPath);
-
-       if (!hasSkill) {
-         const primaryModulePath = getModulePath(primaryFile, ctx.directory);
-         const existingSkillPath = join(ctx.directory, primaryModulePath, '.knowledge', 'SKILL.md');
-         if (await fileExists(existingSkillPath)) {
-           existingSkillContent = await readTextFile(existingSkillPath);
-           console.log(`[smart-codebase] Found existing SKILL.md at ${existingSkillPath}, will merge`);
+     await showProgressToast(ctx, preprocessed.chunked
+       ? "Synthesizing skills from the session summaries..."
+       : "Creating knowledge extraction subsession, starting analysis...");
+
+     const moduleGroups = groupFilesByModule(Array.from(modifiedFiles), ctx.directory, isIgnored);
+     const existingSkills = new Map<string, string>();
+     const pinnedSections: string[] = [];
+
+     // Every module's current skill is the merge base, so earlier knowledge is never re-created from scratch
+     for (const modulePath of moduleGroups.keys()) {
+       try {
+         const existing = await loadExistingModuleSkill(ctx.directory, modulePath);
+         if (!existing) continue;
+
+         existingSkills.set(modulePath, existing.content);
+         console.log(`[smart-codebase] Found existing skill at ${existing.path}, will merge`);
+
+         for (const section of parseModuleSkill(existing.content).sections) {
+           if (section.pinned) {
+             pinnedSections.push(`Module "${modulePath}":\n${section.raw ?? `## ${section.heading}\n${section.content}`}`);
+           }
          }
+       } catch (error) {
+         console.error(`[smart-codebase] Failed to load existing skill for ${modulePath}:`, error);
        }
-     } catch (error) {
-       console.error(`[smart-codebase] Failed to check for project skill:`, error);
      }
 
-     const existingSkillSection = existingSkillContent 
-       ? `\nEXISTING SKILL.md (merge with this):\n\`\`\`markdown\n${existingSkillContent}\n\`\`\`\n`
+     const modulesSection = Array.from(moduleGroups.entries())
+       .map(([modulePath, files]) => `- ${modulePath}: ${files.join(', ')}`)
+       .join('\n');
+
+     const existingSkillSection = existingSkills.size > 0
+       ? Array.from(existingSkills.entries())
+           .map(([modulePath, content]) => `\nEXISTING SKILL.md for module "${modulePath}" (merge with this):\n\`\`\`markdown\n${content}\n\`\`\`\n`)
+           .join('')
        : '\nNo existing SKILL.md found. Create new.\n';
 
-     const systemContext = `You are smart-codebase: a knowledge distillation agent that writes/updates module-level SKILL.md files.
+     const guidance = await buildProfileGuidance(config, ctx.directory, moduleGroups);
+     const profileRules = guidance.defaultInstructions
+       ? `\nPROJECT GUIDANCE:\n${guidance.defaultInstructions}\n`
+       : '';
+     const moduleGuidanceSection = guidance.moduleGuidance
+       ? `\nMODULE-SPECIFIC GUIDANCE (overrides the general focus for these modules):\n${guidance.moduleGuidance}\n`
+       : '';
 
-PRIMARY SIGNAL - CONVERSATION:
-${preprocessed.conversation || '(No conversation)'}
+     const pinnedSection = pinnedSections.length > 0
+       ? `\nPINNED SECTIONS (human-authored, READ-ONLY context): never return, rewrite or list these headings in removedSections. They are kept as is.\n${pinnedSections.join('\n\n')}\n`
+       : '';
+
+     const chunkedNote = preprocessed.chunked
+       ? `\nCHUNKED SESSION: The conversation was too long to include whole. It is given as per-part summaries in order; later parts override earlier ones where they disagree.\n`
+       : '';
+
+     const incrementalNote = preprocessed.incremental
+       ? `\nINCREMENTAL EXTRACTION: Knowledge from earlier in this session was already extracted. The conversation and diff below only cover what happened since. Keep existing knowledge unless the new signals contradict it; do not restate it as new.\n`
+       : '';
+
+     const debuggingArcsSection = preprocessed.debuggingArcs
+       ? `\nDEBUGGING ARCS (a command failed, files were edited, the same command passed):\n${preprocessed.debuggingArcs}\n`
+       : '';
 
+     const systemContext = `You are smart-codebase: a knowledge distillation agent that writes/updates module-level SKILL.md files.
+${incrementalNote}${chunkedNote}
+PRIMARY SIGNAL - CONVERSATION${preprocessed.chunked ? ' (SUMMARIZED)' : ''}:
+${preprocessed.conversation || '(No conversation)'}
+${debuggingArcsSection}
 SECONDARY SIGNALS:
 - Files Modified: ${preprocessed.modifiedFiles || '(none)'}
+- Files Read (not modified): ${preprocessed.filesRead || '(none)'}
+- Commands Run: ${preprocessed.commandsRun || '(none)'}
 - Git Diff: ${preprocessed.gitDiff || '(none)'}
 - Tool Calls: ${preprocessed.toolCallsSummary || '(none)'}
 - Code Snippets: ${preprocessed.codeSnippets || '(none)'}
-${existingSkillSection}
 
-YOUR TASK: Extract durable, project-specific knowledge for future AI sessions and Human developers.
+MODULES TOUCHED (modulePath: files):
+${modulesSection || '(none)'}
+${existingSkillSection}${pinnedSection}
 
-EXTRACT when: implementation patterns, design decisions, gotchas, bug fixes with explanations, user-described features.
-SKIP when: pure config changes, trivial edits (typos, formatting), no actionable knowledge.
+YOUR TASK: Extract durable, project-specific knowledge for future AI sessions and Human developers.
 
-MERGE with existing SKILL.md: preserve valuable content, update outdated info, add new sections, remove redundant content.
+${guidance.focus}
+${profileRules}${moduleGuidanceSection}
+MERGE with existing SKILL.md: sections are merged by heading. Update outdated sections, add new ones, and list obsolete ones in removedSections.
 
-OUTPUT FORMAT:
+OUTPUT FORMAT (one entry per module with knowledge):
 {
-  "skill": {
-    "modulePath": "src/invoice",
-    "name": "invoice-processing",
-    "description": "Invoice form validation. Use Decimal for amounts to avoid precision issues, format INV-YYYYMMDD-XXXX. Use when modifying invoice forms or validation logic.",
-    "sections": [{"heading": "Form Validation", "content": "Amount field uses Decimal type to avoid precision issues.\\nInvoice number format: INV-YYYYMMDD-XXXX"}],
-    "relatedFiles": ["src/invoice/form.tsx"]
-  }
+  "skills": [
+    {
+      "modulePath": "src/invoice",
+      "name": "invoice-processing",
+      "description": "Invoice form validation. Use Decimal for amounts to avoid precision issues, format INV-YYYYMMDD-XXXX. Use when modifying invoice forms or validation logic.",
+      "sections": [{"heading": "Form Validation", "kind": "gotcha", "severity": "high", "content": "Amount field uses Decimal type to avoid precision issues.\\nInvoice number format: INV-YYYYMMDD-XXXX"}],
+      "relatedFiles": ["src/invoice/form.tsx"],
+      "removedSections": [],
+      "conflicts": []
+    }
+  ]
 }
 
 RULES:
+- modulePath: MUST be one of the MODULES TOUCHED. At most one skill per module. Only knowledge about that module's files.
 - name: lowercase-hyphens, max 64 chars. ALWAYS in English.
 - description: Max 300 chars. Include: what it does + key knowledge/gotchas + "Use when..." trigger. This serves as the index summary for skill discovery. MUST be in user's language.
-- sections: Complete merged list with heading + content.
+- sections: New or changed sections with heading + content. Existing sections you leave out are kept as they are; to update one, reuse its heading.
+- kind: Optional per section, one of ${SECTION_KINDS.join(', ')}. gotcha = traps and non-obvious failure modes; decision = choices made and why; pattern = conventions to follow; recipe = step-by-step how-to; glossary = domain terms; open-question = unresolved issues.
+- severity: Optional, one of ${SECTION_SEVERITIES.join(', ')}. Use mainly for gotchas.
+- conflicts: When new evidence contradicts a claim in an EXISTING section, do not silently pick a side. Leave that claim in the section unchanged and add {"section": "<existing heading>", "existing": "<old claim>", "proposed": "<new claim>", "evidence": "<what in this session shows it>"}. A human resolves it.
+- Debugging arcs: Each DEBUGGING ARC is proven "problem → fix" evidence. Turn it into a gotcha section in the module owning the fixed files: the symptom or error, the cause, and the fix. Add the fixed files to relatedFiles.
+- removedSections: Optional list of existing section headings that are now wrong or obsolete. Only listed sections are deleted.
 - content: No verbose explanations. Be Concise.
 - Language: Write description/headings/content in USER'S LANGUAGE (detect from conversation). Keep name field, code snippets, file paths, technical identifiers in English.
-- relatedFiles: COMPLETE list after merging.
-Return ONLY valid JSON. No knowledge: {"skill": null}`;
+- relatedFiles: Files this knowledge relates to. Merged with the existing list.
+Return ONLY valid JSON. No knowledge: {"skills": []}`;
 
-     const extractionPrompt = `Output the merged SKILL JSON now. Return ONLY valid JSON.`;
+     const extractionPrompt = `Output the merged SKILLS JSON now. Return ONLY valid JSON.`;
 
-    const model = parseModelConfig(config?.extractionModel);
-    console.log(`[smart-codebase] Sending extraction prompt to AI...${model ? ` (model: ${config?.extractionModel})` : ''}`);
-    const promptResult = await withTimeout(
-      ctx.client.session.prompt({
-        path: { id: extractionSessionID },
-        body: {
-          ...(model && { model }),
-          system: systemContext,
-          parts: [{ type: 'text', text: extractionPrompt }]
-        }
-      }),
-      120000
-    );
+    const maxAttempts = Math.max(1, config?.extractionMaxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    const allowedModules = ['.', ...Array.from(moduleGroups.keys()).filter(m => m !== '.')];
 
-    const response = unwrapData(promptResult as any) as { parts: any[] };
-    const text = extractTextFromParts(response.parts);
-    console.log(`[smart-codebase] Received AI response (${text.length} chars)`);
+    let extractedSkills: ExtractedSkill[] | null = null;
+    let promptText = extractionPrompt;
 
-    let extracted: { skill: any } | null = null;
-    try {
-      let cleanText = text.trim();
-      if (cleanText.startsWith('```')) {
-        cleanText = cleanText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      console.log(`[smart-codebase] Sending extraction prompt to AI (attempt ${attempt}/${maxAttempts})...${model ? ` (model: ${config?.extractionModel})` : ''}`);
+      const promptResult = await withTimeout(
+        ctx.client.session.prompt({
+          path: { id: extractionSessionID },
+          body: {
+            ...(model && { model }),
+            system: systemContext,
+            parts: [{ type: 'text', text: promptText }]
+          }
+        }),
+        120000
+      );
+
+      const response = unwrapData(promptResult as any) as { parts: any[] };
+      const text = extractTextFromParts(response.parts);
+      console.log(`[smart-codebase] Received AI response (${text.length} chars)`);
+
+      const validation = parseExtractionResponse(text, { allowedModules, limits: guidance.limits });
+      if (validation.ok) {
+        extractedSkills = validation.skills;
+        break;
       }
-      extracted = JSON.parse(cleanText);
-    } catch (error) {
-      console.error('[smart-codebase] Failed to parse AI response as JSON:', error);
+
+      console.error(`[smart-codebase] Extraction output failed validation (attempt ${attempt}/${maxAttempts}):`, validation.errors);
+      result.validationErrors = validation.errors;
+      promptText = formatRepairPrompt(validation.errors);
+    }
+
+    if (!extractedSkills) {
       return result;
     }
+    delete result.validationErrors;
 
-    if (!extracted?.skill) {
+    if (extractedSkills.length === 0) {
       console.log('[smart-codebase] No significant knowledge extracted');
+      // Nothing to write, but these turns and changes have been looked at
+      consumeToolCalls(sessionID, consumedCalls);
+      await completeExtraction(ctx.directory, sessionID, preprocessed.watermark, consumedCalls).catch(logJournalError);
       return result;
     }
 
-    const s = extracted.skill;
-    const modulePath = s.modulePath || '.';
+    const redactor = createRedactor(config?.redaction, ctx.directory);
+    const undoChanges: UndoModuleChange[] = [];
+
+    for (const s of extractedSkills) {
+      const modulePath = s.modulePath;
+      const redacted = redactor.redactSkill({
+        ...toSkillContent(s),
+        relatedFiles: s.relatedFiles.filter(f => !isIgnored(f)),
+      });
+      const skillContent = redacted.skill;
+      result.redactions += redacted.count;
+
+      const indexEntry: IndexEntry = {
+        name: skillContent.metadata.name,
+        description: skillContent.metadata.description,
+        location: `modules/${toSkillName(modulePath)}.md`
+      };
 
-    const skillContent: SkillContent = {
-      metadata: {
-        name: s.name || toSkillName(modulePath),
-        description: s.description || `Handles ${modulePath} module. Use when working on related files.`
-      },
-      sections: (s.sections || []).map((sec: any) => ({
-        heading: sec.heading,
-        content: sec.content
-      })),
-      relatedFiles: s.relatedFiles || []
-    };
-
-    // Only write to module .knowledge/ if not root level
-    // Root level knowledge goes directly to .opencode/skills/<project>/
-    if (modulePath !== '.') {
-      const skillPath = await writeModuleSkill(
-        ctx.directory,
+      if (config?.reviewMode) {
+        const pendingPath = await stagePendingSkill(ctx.directory, {
+          modulePath,
+          skill: skillContent,
+          removedSections: s.removedSections,
+          indexEntry,
+          sessionID,
+          model: config?.extractionModel,
+          createdAt: new Date().toISOString(),
+        });
+        console.log(`[smart-codebase] Staged skill for review: ${pendingPath}`);
+        result.modulesStaged++;
+        result.modules.push({
+          modulePath,
+          skillName: skillContent.metadata.name,
+          sectionsAdded: 0,
+          changes: { added: [], updated: [], removed: [], conflicts: [] },
+        });
+        continue;
+      }
+
+      // Root level knowledge ('.') is kept in modules/project-root.md like any other module
+      const written = await mergeModuleSkill(ctx.directory, modulePath, skillContent, {
+        format: config?.skillFormat,
+        removedSections: s.removedSections,
+        isIgnored,
+        revision: { source: 'extraction', sessionID, model: config?.extractionModel },
+      });
+      const changes = written.changes;
+      const file = written.content !== written.previousContent
+        ? { previousContent: written.previousContent, content: written.content }
+        : undefined;
+      indexEntry.kinds = countSectionKinds(written.skill.sections);
+      console.log(`[smart-codebase] Updated module skill: ${written.path} (+${changes.added.length} ~${changes.updated.length} -${changes.removed.length})`);
+      result.modulesUpdated++;
+
+      result.modules.push({
         modulePath,
-        skillContent
-      );
-      console.log(`[smart-codebase] Updated module skill: ${skillPath}`);
-      result.modulesUpdated = 1;
-    } else {
-      console.log(`[smart-codebase] Root-level knowledge, writing directly to OpenCode skill index`);
+        skillName: skillContent.metadata.name,
+        sectionsAdded: changes.added.length,
+        changes,
+      });
+      result.sectionsAdded += changes.added.length;
+      result.sectionsUpdated += changes.updated.length;
+      result.sectionsRemoved += changes.removed.length;
+      result.conflictsRecorded += changes.conflicts.length;
+
+      const previousIndexEntry = await updateSkillIndex(ctx.directory, indexEntry);
+      result.indexUpdated = true;
+      undoChanges.push({ modulePath, ...(file && { file }), indexEntry: { name: indexEntry.name, previous: previousIndexEntry } });
     }
-    result.sectionsAdded = skillContent.sections.length;
 
-    const indexEntry: IndexEntry = {
-      name: skillContent.metadata.name,
-      description: skillContent.metadata.description,
-      location: modulePath === '.' 
-        ? `.opencode/skills/${await getProjectSkillName(ctx.directory)}/SKILL.md`
-        : `modules/${toSkillName(modulePath)}.md`
-    };
+    await recordExtractionRun(ctx.directory, sessionID, {
+      createdAt: new Date().toISOString(),
+      modules: undoChanges,
+    }).catch((error) => console.error('[smart-codebase] Failed to record undo journal:', error));
+    console.log(`[smart-codebase] Processed ${result.modules.length} extracted skills`);
 
-     await updateSkillIndex(ctx.directory, indexEntry);
-     console.log(`[smart-codebase] Updated OpenCode skill index`);
-     result.indexUpdated = true;
-
-     sessionToolCalls.delete(sessionID);
+     consumeToolCalls(sessionID, consumedCalls);
+     await completeExtraction(ctx.directory, sessionID, preprocessed.watermark, consumedCalls).catch(logJournalError);
 
      return result;
   } catch (error) {
     console.error(`[smart-codebase] Failed to extract knowledge for session ${sessionID}:`, error);
+    result.transientError = error instanceof Error ? error.message : String(error);
     return result;
   } finally {
     sessionExtractionInProgress.delete(sessionID);
@@ -274,18 +595,174 @@ export function cancelPendingExtraction(sessionID: string): boolean {
   if (timer) {
     clearTimeout(timer);
     sessionDebounceTimers.delete(sessionID);
+    if (journalRoot) {
+      clearExtractionJob(journalRoot, sessionID).catch(logJournalError);
+    }
     console.log(`[smart-codebase] Cancelled pending extraction for session ${sessionID}`);
     return true;
   }
   return false;
 }
 
+function scheduleExtractionTimer(
+  ctx: PluginInput,
+  sessionID: string,
+  config: PluginConfig | undefined,
+  delayMs: number
+): void {
+  const existingTimer = sessionDebounceTimers.get(sessionID);
+  if (existingTimer) {
+    clearTimeout(existingTimer);
+  }
+
+  const timer = setTimeout(() => {
+    runScheduledExtraction(ctx, sessionID, config).catch(error => {
+      console.error(`[smart-codebase] Scheduled extraction failed for session ${sessionID}:`, error);
+    });
+  }, Math.max(0, delayMs));
+
+  sessionDebounceTimers.set(sessionID, timer);
+}
+
+async function runScheduledExtraction(
+  ctx: PluginInput,
+  sessionID: string,
+  config?: PluginConfig
+): Promise<void> {
+  sessionDebounceTimers.delete(sessionID);
+  await markExtractionRunning(ctx.directory, sessionID).catch(logJournalError);
+
+  const extractionResult = await extractKnowledge(ctx, sessionID, config);
+
+  if (extractionResult.transientError) {
+    const job = await recordExtractionFailure(ctx.directory, sessionID, extractionResult.transientError)
+      .catch((error) => {
+        logJournalError(error);
+        return undefined;
+      });
+
+    const delayMs = job ? job.runAt - Date.now() : 0;
+    if (job) {
+      scheduleExtractionTimer(ctx, sessionID, config, delayMs);
+      console.log(`[smart-codebase] Extraction retry ${job.attempts} for session ${sessionID} in ${delayMs}ms`);
+    }
+
+    await ctx.client.tui.showToast({
+      body: {
+        title: "smart-codebase",
+        message: job
+          ? `Knowledge extraction failed, retrying in ${Math.round(delayMs / 1000)} seconds...`
+          : `Knowledge extraction failed: ${extractionResult.transientError}`,
+        variant: job ? "warning" : "error",
+        duration: 5000,
+      },
+    }).catch(() => {});
+    return;
+  }
+
+  await clearExtractionJob(ctx.directory, sessionID).catch(logJournalError);
+
+  const message = displayExtractionResult(extractionResult);
+
+  await ctx.client.tui.showToast({
+    body: {
+      title: "smart-codebase",
+      message,
+      variant: extractionResult.validationErrors || extractionResult.conflictsRecorded > 0 ? "warning" : "success",
+      duration: 5000,
+    },
+  }).catch(() => {});
+}
+
+/**
+ * Reload tracked tool calls and extraction jobs left over from a previous run.
+ * Jobs are rescheduled when autoExtract is on; otherwise the user is told to resume manually.
+ * Returns the number of interrupted jobs found.
+ */
+export async function restoreExtractionJournal(ctx: PluginInput, config?: PluginConfig): Promise<number> {
+  journalRoot = ctx.directory;
+  const journal = await readJournal(ctx.directory);
+  let pendingJobs = 0;
+
+  for (const [sessionID, session] of Object.entries(journal.sessions)) {
+    if (!sessionToolCalls.has(sessionID) && session.toolCalls.length > 0) {
+      sessionToolCalls.set(sessionID, [...session.toolCalls]);
+    }
+
+    if (!session.job) continue;
+    pendingJobs++;
+
+    if (config?.autoExtract !== false) {
+      scheduleExtractionTimer(ctx, sessionID, config, Math.max(session.job.runAt - Date.now(), RESUME_DELAY_MS));
+    }
+  }
+
+  if (pendingJobs > 0) {
+    const jobsText = pendingJobs === 1 ? '1 interrupted knowledge extraction' : `${pendingJobs} interrupted knowledge extractions`;
+    console.log(`[smart-codebase] Restored ${jobsText} from journal`);
+
+    await ctx.client.tui.showToast({
+      body: {
+        title: "smart-codebase",
+        message: config?.autoExtract !== false
+          ? `Resuming ${jobsText}...`
+          : `Found ${jobsText}. Run /sc-extract with resume to continue`,
+        variant: "info",
+        duration: 5000,
+      },
+    }).catch(() => {});
+  }
+
+  return pendingJobs;
+}
+
+/**
+ * Run every journaled extraction job right away (used by /sc-extract resume).
+ */
+export async function runPendingExtractions(ctx: PluginInput, config?: PluginConfig): Promise<ExtractionResult[]> {
+  const journal = await readJournal(ctx.directory);
+  const results: ExtractionResult[] = [];
+
+  for (const [sessionID, session] of Object.entries(journal.sessions)) {
+    if (!session.job) continue;
+
+    const timer = sessionDebounceTimers.get(sessionID);
+    if (timer) {
+      clearTimeout(timer);
+      sessionDebounceTimers.delete(sessionID);
+    }
+
+    if (!sessionToolCalls.has(sessionID) && session.toolCalls.length > 0) {
+      sessionToolCalls.set(sessionID, [...session.toolCalls]);
+    }
+
+    const result = await extractKnowledge(ctx, sessionID, config);
+    if (!result.transientError) {
+      await clearExtractionJob(ctx.directory, sessionID).catch(logJournalError);
+    }
+    results.push(result);
+  }
+
+  return results;
+}
+
 export function createKnowledgeExtractorHook(ctx: PluginInput, config?: PluginConfig) {
+  journalRoot = ctx.directory;
+
+  const toolExecuteBefore = async (input: ToolExecuteBeforeInput) => {
+    // Usually done on session.created. If that was missed, the snapshot must finish before
+    // the tool's first edit; later calls get the settled capture back at once
+    await captureSessionBaseline(ctx.directory, input.sessionID);
+    toolCallStarts.set(input.callID, Date.now());
+  };
+
   const toolExecuteAfter = async (
     input: ToolExecuteAfterInput,
     output: ToolExecuteAfterOutput,
   ) => {
     const toolName = input.tool.toLowerCase();
+    const startedAt = toolCallStarts.get(input.callID);
+    toolCallStarts.delete(input.callID);
 
     // Filter out config and tui operations
     if (toolName.startsWith('config.') || toolName.startsWith('tui.')) {
@@ -305,17 +782,17 @@ export function createKnowledgeExtractorHook(ctx: PluginInput, config?: PluginCo
     }
 
     try {
-      const target = output.title as string | undefined;
       const toolCalls = getToolCalls(input.sessionID);
       
-      const record: ToolCallRecord = {
-        tool: toolName,
-        target,
-        timestamp: Date.now()
-      };
-      
+      const record = createToolCallRecord(toolName, input.args, output, ctx.directory, startedAt);
+      if (isIgnoredToolCall(record, loadIgnoreMatcher(ctx.directory, config?.ignore))) {
+        console.log(`[smart-codebase] Skipped ignored path: ${record.filePath}`);
+        return;
+      }
+
       toolCalls.push(record);
-      console.log(`[smart-codebase] Tracked tool call: ${toolName}${target ? ` on ${target}` : ''}`);
+      await appendToolCall(ctx.directory, input.sessionID, record).catch(logJournalError);
+      console.log(`[smart-codebase] Tracked tool call: ${describeToolCall(record)}`);
     } catch (error) {
       console.error(`[smart-codebase] Failed to track tool call:`, error);
     }
@@ -324,6 +801,14 @@ export function createKnowledgeExtractorHook(ctx: PluginInput, config?: PluginCo
   const eventHandler = async ({ event }: EventInput) => {
     const props = event.properties as Record<string, unknown> | undefined;
 
+    if (event.type === "session.created") {
+      const sessionInfo = props?.info as { id?: string; parentID?: string } | undefined;
+      // Extraction sessions are children and have no work of their own to diff
+      if (sessionInfo?.id && !sessionInfo.parentID) {
+        await captureSessionBaseline(ctx.directory, sessionInfo.id);
+      }
+    }
+
     if (event.type === "session.idle") {
       const sessionID = props?.sessionID as string | undefined;
       if (!sessionID) return;
@@ -346,11 +831,6 @@ export function createKnowledgeExtractorHook(ctx: PluginInput, config?: PluginCo
          return;
        }
 
-      const existingTimer = sessionDebounceTimers.get(sessionID);
-      if (existingTimer) {
-        clearTimeout(existingTimer);
-      }
-
       const debounceMs = config?.debounceMs ?? 60000;
       
       await ctx.client.tui.showToast({
@@ -362,25 +842,9 @@ export function createKnowledgeExtractorHook(ctx: PluginInput, config?: PluginCo
         },
       }).catch(() => {});
       console.log(`[smart-codebase] Countdown toast shown for session ${sessionID}`);
-      
-      const timer = setTimeout(async () => {
-        const extractionResult = await extractKnowledge(ctx, sessionID, config);
-
-        const message = displayExtractionResult(extractionResult);
-
-        await ctx.client.tui.showToast({
-          body: {
-            title: "smart-codebase",
-            message,
-            variant: "success",
-            duration: 5000,
-          },
-        }).catch(() => {});
-
-        sessionDebounceTimers.delete(sessionID);
-      }, debounceMs);
 
-      sessionDebounceTimers.set(sessionID, timer);
+      scheduleExtractionTimer(ctx, sessionID, config, debounceMs);
+      await scheduleExtractionJob(ctx.directory, sessionID, Date.now() + debounceMs).catch(logJournalError);
       console.log(`[smart-codebase] Session ${sessionID} idle, extraction scheduled in ${debounceMs}ms`);
     }
 
@@ -394,12 +858,15 @@ export function createKnowledgeExtractorHook(ctx: PluginInput, config?: PluginCo
           sessionDebounceTimers.delete(sessionInfo.id);
           sessionToolCalls.delete(sessionInfo.id);
           sessionToastShown.delete(sessionInfo.id);
+          sessionBaselines.delete(sessionInfo.id);
+          await clearJournalSession(ctx.directory, sessionInfo.id).catch(logJournalError);
           console.log(`[smart-codebase] Cleaned up session ${sessionInfo.id}`);
         }
       }
   };
 
   return {
+    "tool.execute.before": toolExecuteBefore,
     "tool.execute.after": toolExecuteAfter,
     event: eventHandler,
   };
@@ -1,12 +1,23 @@
-import type { Plugin } from "@opencode-ai/plugin";
+import type { Plugin, ToolDefinition } from "@opencode-ai/plugin";
 import { extractCommand } from "./commands/extract";
 import { statusCommand } from "./commands/status";
 import { rebuildIndexCommand } from "./commands/rebuild-index";
 import { cleanupCommand } from "./commands/cleanup";
+import { reviewCommand } from "./commands/review";
+import { acceptCommand } from "./commands/accept";
+import { rejectCommand } from "./commands/reject";
+import { sectionsCommand } from "./commands/sections";
+import { conflictsCommand } from "./commands/conflicts";
+import { historyCommand } from "./commands/history";
+import { restoreCommand } from "./commands/restore";
+import { undoCommand } from "./commands/undo";
+import { migrateCommand } from "./commands/migrate";
 import { createContextInjectorHook } from "./hooks/context-injector";
-import { createKnowledgeExtractorHook, cancelPendingExtraction } from "./hooks/knowledge-extractor";
+import { createKnowledgeExtractorHook, cancelPendingExtraction, restoreExtractionJournal } from "./hooks/knowledge-extractor";
 import { setPluginInput } from "./plugin-context";
 import { loadConfig } from "./config";
+import { setLockStaleMs } from "./utils/lock";
+import { setHistoryLimit } from "./storage/skill-history";
 import { trackSkillAccess, shouldTrackPath } from "./storage/usage-tracker";
 
 const ALL_COMMANDS = {
@@ -14,11 +25,20 @@ const ALL_COMMANDS = {
   "sc-status": statusCommand,
   "sc-rebuild-index": rebuildIndexCommand,
   "sc-cleanup": cleanupCommand,
+  "sc-review": reviewCommand,
+  "sc-accept": acceptCommand,
+  "sc-reject": rejectCommand,
+  "sc-sections": sectionsCommand,
+  "sc-conflicts": conflictsCommand,
+  "sc-history": historyCommand,
+  "sc-restore": restoreCommand,
+  "sc-undo": undoCommand,
+  "sc-migrate": migrateCommand,
 } as const;
 
 const COMMAND_CONFIGS = {
   "sc-extract": {
-    template: "Use sc-extract to manually trigger knowledge extraction. Analyzes modified files in current session and extracts valuable knowledge.",
+    template: "Use sc-extract to manually trigger knowledge extraction. Analyzes modified files in current session and extracts valuable knowledge. Pass resume=true to run extractions interrupted by a previous OpenCode shutdown.",
     description: "Manually trigger knowledge extraction",
   },
   "sc-status": {
@@ -26,29 +46,68 @@ const COMMAND_CONFIGS = {
     description: "Display knowledge base status",
   },
   "sc-rebuild-index": {
-    template: "Use sc-rebuild-index to rebuild global knowledge index. Scans all .knowledge/ directories and rebuilds .knowledge/KNOWLEDGE.md.",
+    template: "Use sc-rebuild-index to rebuild the project knowledge index. Scans the module skills under .opencode/skills/<project>/modules/ and rebuilds .opencode/skills/<project>/SKILL.md.",
     description: "Rebuild knowledge index",
   },
   "sc-cleanup": {
     template: "Use sc-cleanup to identify and remove low-usage SKILL files. Default is preview mode. Use --confirm to actually delete.",
     description: "Clean up low-usage SKILL files",
   },
+  "sc-review": {
+    template: "Use sc-review to show extracted skills waiting for review, with a diff against the current module files.",
+    description: "Review pending extracted knowledge",
+  },
+  "sc-accept": {
+    template: "Use sc-accept to accept a pending skill into the knowledge base. Pass the skill name and optionally the section headings to accept.",
+    description: "Accept pending extracted knowledge",
+  },
+  "sc-reject": {
+    template: "Use sc-reject to discard a pending skill. Pass the skill name and optionally the section headings to reject.",
+    description: "Reject pending extracted knowledge",
+  },
+  "sc-sections": {
+    template: "Use sc-sections to list knowledge sections. Filter by module (e.g. src/payments), kind (gotcha, decision, pattern, recipe, glossary, open-question) and minimum severity.",
+    description: "List knowledge sections by module and kind",
+  },
+  "sc-conflicts": {
+    template: "Use sc-conflicts to list contradictions between new and existing knowledge. Resolve one with resolve=<id> and keep=existing or keep=proposed.",
+    description: "List and resolve knowledge conflicts",
+  },
+  "sc-history": {
+    template: "Use sc-history to list earlier revisions of a module skill (e.g. src-auth) with what changed in each and who made the change.",
+    description: "Show revision history of a module skill",
+  },
+  "sc-restore": {
+    template: "Use sc-restore to roll a module skill back to a revision listed by sc-history. Pass the skill name and the revision number.",
+    description: "Restore a module skill to an earlier revision",
+  },
+  "sc-undo": {
+    template: "Use sc-undo to revert the most recent knowledge extraction of this session, including index entries it created. Report what was reverted.",
+    description: "Undo the last knowledge extraction",
+  },
+  "sc-migrate": {
+    template: "Use sc-migrate to move legacy <module>/.knowledge/SKILL.md files into module skills under .opencode/skills/<project>/modules/ and rebuild the index. Pass delete=true to remove the legacy files afterwards.",
+    description: "Migrate legacy .knowledge files",
+  },
 } as const;
 
 const SmartCodebasePlugin: Plugin = async (input) => {
   try {
     setPluginInput(input);
     
-    const config = loadConfig();
+    const config = loadConfig(input.directory);
     
     if (!config.enabled) {
       console.log("[smart-codebase] Plugin disabled via config");
       return {};
     }
 
+    setLockStaleMs(config.lockStaleMs);
+    setHistoryLimit(config.historyLimit);
+
     const disabledCommands = new Set(config.disabledCommands || []);
     
-    const enabledTools: Record<string, typeof extractCommand> = {};
+    const enabledTools: Record<string, ToolDefinition> = {};
     const enabledCommandConfigs: Record<string, { template: string; description: string }> = {};
     
     for (const [name, command] of Object.entries(ALL_COMMANDS)) {
@@ -60,16 +119,24 @@ const SmartCodebasePlugin: Plugin = async (input) => {
 
     const contextInjector = createContextInjectorHook(input, config);
     const knowledgeExtractor = createKnowledgeExtractorHook(input, config);
+
+    restoreExtractionJournal(input, config).catch((error) => {
+      console.error("[smart-codebase] Failed to restore extraction journal:", error);
+    });
     
     let hasShownWelcomeToast = false;
 
     return {
       tool: enabledTools,
+      "tool.execute.before": async (hookInput) => {
+        await knowledgeExtractor["tool.execute.before"]?.(hookInput);
+      },
       "tool.execute.after": async (hookInput, output) => {
         await knowledgeExtractor["tool.execute.after"]?.(hookInput, output);
         
-        if (hookInput.tool === "read" && output.title) {
-          const filePath = output.title;
+        const readPath = hookInput.args?.filePath ?? output.title;
+        if (hookInput.tool === "read" && readPath) {
+          const filePath = readPath;
           const projectRoot = input.directory;
           
           if (shouldTrackPath(filePath, projectRoot)) {
@@ -0,0 +1,289 @@
+import { readFile } from "fs/promises";
+import { isAbsolute, join } from "path";
+import type { ToolCallRecord } from "../types";
+import { estimateTokens } from "../utils/tokens";
+import { getEditedFiles, getFilePath, getOperation, getReadOnlyFiles } from "./tool-calls";
+
+const CONTEXT_LINES = 3;
+/** Enclosing declarations longer than this are cut down to the region plus context. */
+const MAX_BLOCK_LINES = 80;
+/** Declaration names shorter than this are too generic to count as "discussed". */
+const MIN_DISCUSSED_NAME_LENGTH = 4;
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Top-level only: an indented `const` is a local variable, not something worth showing on its own
+const DECLARATION = /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|enum|type|const|let|var)\s+([A-Za-z_$][\w$]*)/;
+const METHOD = /^\s*(?:(?:public|private|protected|static|readonly|override|async|get|set)\s+)*\*?([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\(.*\)\s*(?::\s*[^{]+)?\{\s*$/;
+const NOT_METHODS = new Set(['if', 'for', 'while', 'switch', 'catch', 'function', 'return', 'with']);
+
+export interface LineRange {
+  /** 1-based, inclusive. */
+  start: number;
+  end: number;
+}
+
+export interface Declaration extends LineRange {
+  name: string;
+}
+
+export interface CodeSnippet extends LineRange {
+  file: string;
+  /** Name of the enclosing declaration, when the snippet is one. */
+  name?: string;
+  /** True when the snippet contains a diff hunk, false for code that was only read or discussed. */
+  edited: boolean;
+  /** Number of tool calls that touched the file. */
+  touches: number;
+  content: string;
+}
+
+/**
+ * New-side line ranges of each hunk in a unified diff, keyed by the `+++ b/` path.
+ */
+export function parseDiffHunks(diff: string): Map<string, LineRange[]> {
+  const hunks = new Map<string, LineRange[]>();
+  let current: LineRange[] | undefined;
+
+  for (const line of diff.split('\n')) {
+    const file = line.match(/^\+\+\+ (?:b\/)?(.+)$/);
+    if (file) {
+      current = file[1] === '/dev/null' ? undefined : [];
+      if (current) hunks.set(file[1], current);
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk && current) {
+      const start = parseInt(hunk[1], 10);
+      const count = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+      current.push({ start: Math.max(1, start), end: Math.max(1, start + count - 1) });
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Line where the braces opened on `startIndex` are closed again, skipping strings and comments.
+ * Declarations without a body (`type X = ...;`) end at their first semicolon.
+ */
+function findBlockEnd(lines: string[], startIndex: number): number {
+  let depth = 0;
+  let opened = false;
+  let inBlockComment = false;
+
+  for (let i = startIndex; i < lines.length; i++) {
+    const line = lines[i];
+    let quote: string | null = null;
+
+    for (let j = 0; j < line.length; j++) {
+      const char = line[j];
+      const next = line[j + 1];
+
+      if (inBlockComment) {
+        if (char === '*' && next === '/') {
+          inBlockComment = false;
+          j++;
+        }
+      } else if (quote) {
+        if (char === '\\') j++;
+        else if (char === quote) quote = null;
+      } else if (char === '/' && next === '/') {
+        break;
+      } else if (char === '/' && next === '*') {
+        inBlockComment = true;
+        j++;
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if (char === '{') {
+        depth++;
+        opened = true;
+      } else if (char === '}') {
+        depth--;
+        if (opened && depth === 0) return i;
+      } else if (char === ';' && !opened && depth === 0) {
+        return i;
+      }
+    }
+  }
+
+  return lines.length - 1;
+}
+
+/**
+ * Lightweight TypeScript/JavaScript outline: top-level declarations and indented methods
+ * with the lines their bodies span. Not a parser, but good enough to find enclosing code.
+ */
+export function findDeclarations(content: string): Declaration[] {
+  const lines = content.split('\n');
+  const declarations: Declaration[] = [];
+
+  lines.forEach((line, index) => {
+    const declaration = line.match(DECLARATION);
+    const method = declaration ? null : line.match(METHOD);
+    const name = declaration?.[1] ?? method?.[1];
+    if (!name || NOT_METHODS.has(name)) return;
+
+    declarations.push({ name, start: index + 1, end: findBlockEnd(lines, index) + 1 });
+  });
+
+  return declarations;
+}
+
+function isScriptFile(file: string): boolean {
+  return SCRIPT_EXTENSIONS.some(ext => file.toLowerCase().endsWith(ext));
+}
+
+function withContext(range: LineRange, lineCount: number, bounds?: LineRange): LineRange {
+  const min = bounds?.start ?? 1;
+  const max = bounds?.end ?? lineCount;
+  return {
+    start: Math.max(min, range.start - CONTEXT_LINES),
+    end: Math.min(max, range.end + CONTEXT_LINES),
+  };
+}
+
+/**
+ * Grow a region to its smallest enclosing declaration, or to the region plus context
+ * lines when there is none or it is too long to show whole. Long regions (a new file,
+ * a large read) are cut to their first lines.
+ */
+function expandRegion(
+  fullRegion: LineRange,
+  declarations: Declaration[],
+  lineCount: number
+): LineRange & { name?: string } {
+  const region = { start: fullRegion.start, end: Math.min(fullRegion.end, fullRegion.start + MAX_BLOCK_LINES - 1) };
+  const enclosing = declarations
+    .filter(d => d.start <= region.start && d.end >= region.end)
+    .sort((a, b) => (a.end - a.start) - (b.end - b.start))[0];
+
+  if (enclosing && enclosing.end - enclosing.start + 1 <= MAX_BLOCK_LINES) {
+    return enclosing;
+  }
+  return withContext(region, lineCount, enclosing);
+}
+
+type Region = LineRange & { name?: string; edited: boolean };
+
+function mergeRegions(regions: Region[]): Region[] {
+  const sorted = [...regions].sort((a, b) => a.start - b.start);
+  const merged: Region[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+      last.edited = last.edited || range.edited;
+      if (last.name !== range.name) last.name = undefined;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+function findHunks(hunks: Map<string, LineRange[]>, file: string): LineRange[] {
+  for (const [path, ranges] of hunks) {
+    // Diff paths are relative to the repository root, which may be above the project directory
+    if (path === file || path.endsWith(`/${file}`)) return ranges;
+  }
+  return [];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function renderSnippet(snippet: Omit<CodeSnippet, 'content'>, lines: string[]): string {
+  const labels = [snippet.name, snippet.edited && 'edited'].filter(Boolean).join(', ');
+  const body = lines.slice(snippet.start - 1, snippet.end).join('\n');
+  return `--- ${snippet.file}:${snippet.start}-${snippet.end}${labels ? ` (${labels})` : ''} ---\n${body}`;
+}
+
+/**
+ * Collect the code regions a session worked on: diff hunks of edited files, explicit line
+ * ranges of reads, and declarations named in the conversation. Regions are widened to the
+ * enclosing function or class for TypeScript/JavaScript.
+ */
+export async function collectCodeSnippets(
+  projectRoot: string,
+  toolCalls: ToolCallRecord[],
+  options: { diff?: string; conversation?: string; isExcluded?: (file: string) => boolean } = {}
+): Promise<CodeSnippet[]> {
+  const hunks = parseDiffHunks(options.diff ?? '');
+  const files = [...getEditedFiles(toolCalls), ...getReadOnlyFiles(toolCalls)].filter(f => !options.isExcluded?.(f));
+
+  const touches = new Map<string, number>();
+  for (const tc of toolCalls) {
+    const file = getFilePath(tc);
+    if (file && getOperation(tc) !== 'search') touches.set(file, (touches.get(file) ?? 0) + 1);
+  }
+
+  const snippets: CodeSnippet[] = [];
+
+  for (const file of files) {
+    let content: string;
+    try {
+      content = await readFile(isAbsolute(file) ? file : join(projectRoot, file), 'utf-8');
+    } catch {
+      continue;
+    }
+
+    const lines = content.split('\n');
+    const declarations = isScriptFile(file) ? findDeclarations(content) : [];
+    const regions: Array<{ range: LineRange; edited: boolean }> = findHunks(hunks, file)
+      .map(range => ({ range, edited: true }));
+
+    for (const tc of toolCalls) {
+      if (tc.tool === 'read' && getFilePath(tc) === file && tc.startLine) {
+        const range = { start: tc.startLine, end: Math.min(tc.endLine ?? tc.startLine, lines.length) };
+        regions.push({ range, edited: false });
+      }
+    }
+
+    if (options.conversation) {
+      for (const declaration of declarations) {
+        if (declaration.name.length < MIN_DISCUSSED_NAME_LENGTH) continue;
+        if (new RegExp(`\\b${escapeRegExp(declaration.name)}\\b`).test(options.conversation)) {
+          regions.push({ range: declaration, edited: false });
+        }
+      }
+    }
+
+    const expanded = mergeRegions(regions.map(({ range, edited }) => ({
+      ...expandRegion(range, declarations, lines.length),
+      edited,
+    })));
+    for (const region of expanded) {
+      const snippet = { file, ...region, touches: touches.get(file) ?? 1 };
+      snippets.push({ ...snippet, content: renderSnippet(snippet, lines) });
+    }
+  }
+
+  return snippets;
+}
+
+/**
+ * Rank snippets (most-touched files first, edited code before context) and keep as many
+ * as fit in the token budget.
+ */
+export function fitSnippets(snippets: CodeSnippet[], maxTokens: number): CodeSnippet[] {
+  const ranked = snippets
+    .map((snippet, index) => ({ snippet, index }))
+    .sort((a, b) =>
+      b.snippet.touches - a.snippet.touches ||
+      Number(b.snippet.edited) - Number(a.snippet.edited) ||
+      a.index - b.index
+    )
+    .map(({ snippet }) => snippet);
+
+  const kept: CodeSnippet[] = [];
+  let used = 0;
+  for (const snippet of ranked) {
+    const tokens = estimateTokens(snippet.content);
+    if (used + tokens > maxTokens) continue;
+    kept.push(snippet);
+    used += tokens;
+  }
+  return kept;
+}
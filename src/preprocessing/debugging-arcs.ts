@@ -0,0 +1,90 @@
+import type { ToolCallRecord } from "../types";
+import { getFilePath, getOperation } from "./tool-calls";
+
+/**
+ * A command that failed, then passed after files were edited: a problem and its fix.
+ */
+export interface DebuggingArc {
+  command: string;
+  /** Failed runs before the passing one. */
+  failures: number;
+  /** Exit code of the last failed run. */
+  exitCode?: number;
+  /** Error excerpt of the last failed run. */
+  error?: string;
+  /** Files edited between the first failure and the passing run. */
+  fixedFiles: string[];
+}
+
+function normalizeCommand(command: string): string {
+  return command.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Find fail → edit → pass sequences of the same command. A rerun that passes without
+ * any edit in between is treated as flaky and not reported.
+ */
+export function detectDebuggingArcs(toolCalls: ToolCallRecord[]): DebuggingArc[] {
+  const arcs: DebuggingArc[] = [];
+  // Open failures by normalized command
+  const open = new Map<string, { failures: number; last: ToolCallRecord; edited: Set<string> }>();
+
+  for (const tc of toolCalls) {
+    const operation = getOperation(tc);
+
+    if (operation === 'write') {
+      const filePath = getFilePath(tc);
+      if (filePath) {
+        for (const state of open.values()) state.edited.add(filePath);
+      }
+      continue;
+    }
+
+    if (operation !== 'exec' || !tc.command || tc.exitCode === undefined) continue;
+
+    const key = normalizeCommand(tc.command);
+    const state = open.get(key);
+
+    if (tc.exitCode !== 0) {
+      if (state) {
+        state.failures++;
+        state.last = tc;
+      } else {
+        open.set(key, { failures: 1, last: tc, edited: new Set() });
+      }
+      continue;
+    }
+
+    if (state) {
+      open.delete(key);
+      if (state.edited.size > 0) {
+        arcs.push({
+          command: key,
+          failures: state.failures,
+          exitCode: state.last.exitCode,
+          error: state.last.errorExcerpt,
+          fixedFiles: Array.from(state.edited),
+        });
+      }
+    }
+  }
+
+  return arcs;
+}
+
+/**
+ * Render arcs as numbered "problem → fix" evidence for the extraction prompt.
+ */
+export function formatDebuggingArcs(arcs: DebuggingArc[]): string {
+  return arcs.map((arc, i) => {
+    const attempts = arc.failures > 1 ? ` ${arc.failures} times` : '';
+    const exit = arc.exitCode !== undefined ? ` (exit ${arc.exitCode})` : '';
+    const lines = [`${i + 1}. Problem: \`${arc.command}\` failed${attempts}${exit}`];
+    if (arc.error) {
+      lines.push(`   Error:\n${arc.error.split('\n').map(l => `     ${l}`).join('\n')}`);
+    }
+    lines.push(`   Fix: edited ${arc.fixedFiles.join(', ')}`);
+    lines.push(`   Result: \`${arc.command}\` passed`);
+    return lines.join('\n');
+  }).join('\n\n');
+}
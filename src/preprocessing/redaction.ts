@@ -0,0 +1,183 @@
+import { isAbsolute, relative } from "path";
+import type { RedactionConfig } from "../types";
+import type { SkillContent } from "../storage/knowledge-writer";
+import { matchesGlob } from "../utils/glob";
+
+interface Detector {
+  kind: string;
+  pattern: RegExp;
+  /** Builds the replacement; defaults to replacing the whole match. */
+  replace?: (match: string, ...groups: string[]) => string;
+}
+
+function marker(kind: string): string {
+  return `[REDACTED:${kind}]`;
+}
+
+// Order matters: specific credential formats run first, and generic detectors skip values
+// that an earlier detector already replaced
+const BUILTIN_DETECTORS: Detector[] = [
+  {
+    kind: 'private-key',
+    pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY-----/g,
+  },
+  {
+    kind: 'connection-string',
+    pattern: /\b([a-z][a-z0-9+.-]*:\/\/)[^\s:@\/'"]+:[^\s@\/'"]+@/gi,
+    replace: (_match, scheme) => `${scheme}${marker('connection-string')}@`,
+  },
+  {
+    kind: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  },
+  { kind: 'api-key', pattern: /\bAKIA[0-9A-Z]{16}\b/g },
+  { kind: 'api-key', pattern: /\bsk-[A-Za-z0-9_-]{20,}/g },
+  { kind: 'api-key', pattern: /\b(?:sk|rk|pk)_(?:live|test)_[0-9A-Za-z]{16,}/g },
+  { kind: 'api-key', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { kind: 'api-key', pattern: /\bgithub_pat_[A-Za-z0-9_]{22,}/g },
+  { kind: 'api-key', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  {
+    // password = "hunter22", apiKey: 'abc...' - only quoted values, so type annotations survive
+    kind: 'secret',
+    pattern: /\b([A-Za-z0-9_.-]*(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?key|auth[_-]?token|access[_-]?token|client[_-]?secret)[A-Za-z0-9_]*["']?\s*[:=]\s*)(["'])(?!\[REDACTED:)([^"'\n]{6,})\2/gi,
+    replace: (_match, prefix, quote) => `${prefix}${quote}${marker('secret')}${quote}`,
+  },
+  {
+    // Env-file style: DB_PASSWORD=hunter22 (optionally prefixed by a diff marker or `export`)
+    kind: 'secret',
+    pattern: /^([+\- ]?\s*(?:export\s+)?[A-Z0-9_]*(?:PASSWORD|PASSWD|SECRET|API_KEY|ACCESS_KEY|TOKEN)[A-Z0-9_]*\s*=\s*)(?!\[REDACTED:)([^\s"'#][^\s#]{5,})/gm,
+    replace: (_match, prefix) => `${prefix}${marker('secret')}`,
+  },
+  {
+    kind: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+];
+
+export interface RedactionResult {
+  text: string;
+  count: number;
+}
+
+export interface Redactor {
+  /** Replace secrets and PII in free text. */
+  redact(text: string): RedactionResult;
+  /** True when the file must never be shown to the model or written to skills. */
+  isDeniedPath(filePath: string): boolean;
+  /** Drop `diff --git` blocks for denied files, then redact what is left. */
+  redactDiff(diff: string): RedactionResult;
+  /** Redact every text field of a skill and drop denied related files. */
+  redactSkill(skill: SkillContent): { skill: SkillContent; count: number };
+}
+
+function compileProjectPatterns(patterns: string[]): Detector[] {
+  const detectors: Detector[] = [];
+  for (const source of patterns) {
+    try {
+      detectors.push({ kind: 'custom', pattern: new RegExp(source, 'g') });
+    } catch (error) {
+      console.error(`[smart-codebase] Ignoring invalid redaction pattern ${source}:`, error);
+    }
+  }
+  return detectors;
+}
+
+/**
+ * Build a redactor from config. Built-in detectors always run when redaction is enabled;
+ * project patterns and deny paths are added on top.
+ */
+export function createRedactor(config: RedactionConfig | undefined, projectRoot: string): Redactor {
+  const enabled = config?.enabled !== false;
+  const detectors = enabled
+    ? [...BUILTIN_DETECTORS, ...compileProjectPatterns(config?.patterns ?? [])]
+    : [];
+  const denyPaths = enabled ? config?.denyPaths ?? [] : [];
+
+  const redact = (text: string): RedactionResult => {
+    if (!text || detectors.length === 0) {
+      return { text, count: 0 };
+    }
+
+    let count = 0;
+    let result = text;
+    for (const detector of detectors) {
+      detector.pattern.lastIndex = 0;
+      result = result.replace(detector.pattern, (match: string, ...rest: any[]) => {
+        // Custom patterns may match the empty string; leave those alone
+        if (!match) return match;
+        count++;
+        const groups = rest.slice(0, -2) as string[];
+        return detector.replace ? detector.replace(match, ...groups) : marker(detector.kind);
+      });
+    }
+    return { text: result, count };
+  };
+
+  const isDeniedPath = (filePath: string): boolean => {
+    if (denyPaths.length === 0) return false;
+    const relativePath = isAbsolute(filePath) ? relative(projectRoot, filePath) : filePath;
+    return denyPaths.some(pattern => matchesGlob(relativePath, pattern));
+  };
+
+  const redactDiff = (diff: string): RedactionResult => {
+    if (!diff) return { text: diff, count: 0 };
+
+    let deniedBlocks = 0;
+    const blocks = diff.split(/^(?=diff --git )/m).filter(block => {
+      const header = block.match(/^diff --git a\/(\S+) b\/(\S+)/);
+      if (header && (isDeniedPath(header[1]) || isDeniedPath(header[2]))) {
+        deniedBlocks++;
+        return false;
+      }
+      return true;
+    });
+
+    const redacted = redact(blocks.join(''));
+    return { text: redacted.text, count: redacted.count + deniedBlocks };
+  };
+
+  const redactSkill = (skill: SkillContent): { skill: SkillContent; count: number } => {
+    let count = 0;
+    const apply = (text: string): string => {
+      const r = redact(text);
+      count += r.count;
+      return r.text;
+    };
+
+    const relatedFiles = (skill.relatedFiles ?? []).filter(file => {
+      if (isDeniedPath(file)) {
+        count++;
+        return false;
+      }
+      return true;
+    });
+
+    return {
+      skill: {
+        ...skill,
+        metadata: {
+          ...skill.metadata,
+          description: apply(skill.metadata.description),
+        },
+        sections: skill.sections.map(section => ({
+          ...section,
+          heading: apply(section.heading),
+          content: apply(section.content),
+        })),
+        relatedFiles,
+        ...(skill.conflicts && {
+          conflicts: skill.conflicts.map(conflict => ({
+            ...conflict,
+            existing: apply(conflict.existing),
+            proposed: apply(conflict.proposed),
+            ...(conflict.evidence && { evidence: apply(conflict.evidence) }),
+          })),
+        }),
+      },
+      count,
+    };
+  };
+
+  return { redact, isDeniedPath, redactDiff, redactSkill };
+}
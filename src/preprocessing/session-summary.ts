@@ -1,13 +1,35 @@
 import type { PluginInput } from "@opencode-ai/plugin";
-import type { ToolCallRecord, PreprocessedSummary } from "../types";
+import { execFileSync } from "child_process";
+import { isAbsolute } from "path";
+import type {
+  ToolCallRecord,
+  PreprocessedSummary,
+  ExtractionWatermark,
+  RedactionConfig,
+  SessionBaseline,
+  ExtractionBudgets,
+  BudgetSection,
+  SectionBudgetUsage,
+} from "../types";
+import { getHeadSha, snapshotWorkingTree } from "../utils/git";
+import { estimateTokens, truncateToTokens } from "../utils/tokens";
+import { createRedactor } from "./redaction";
+import { detectDebuggingArcs, formatDebuggingArcs } from "./debugging-arcs";
+import { collectCodeSnippets, fitSnippets } from "./code-snippets";
+import type { IgnoreMatcher } from "../utils/ignore";
+import { describeToolCall, getCommandsRun, getEditedFiles, getFilePath, getReadOnlyFiles, isIgnoredToolCall } from "./tool-calls";
 
 const BINARY_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.ico', '.woff', '.woff2', '.ttf', '.eot', '.pdf', '.zip', '.tar', '.gz'];
-const DEFAULT_MAX_TOKENS = 8000;
-const MAX_SNIPPET_LINES = 200;
-
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
+export const DEFAULT_MAX_TOKENS = 8000;
+const DEFAULT_BUDGETS: Required<ExtractionBudgets> = {
+  conversation: 0.45,
+  debuggingArcs: 0.1,
+  diff: 0.25,
+  toolCalls: 0.05,
+  snippets: 0.15,
+};
+const TRUNCATION_MARKER = '\n... [truncated]';
+const REDACTED_PATH = '[REDACTED:path]';
 
 function isBinaryFile(filePath: string): boolean {
   const ext = filePath.substring(filePath.lastIndexOf('.')).toLowerCase();
@@ -32,20 +54,24 @@ function getMessageCreatedTime(msg: any): number | undefined {
   return typeof t === 'number' ? t : undefined;
 }
 
-async function fetchConversation(ctx: PluginInput, sessionID: string): Promise<string> {
+async function fetchConversation(
+  ctx: PluginInput,
+  sessionID: string,
+  sinceMessageIndex: number
+): Promise<{ transcript: string; messageCount: number }> {
   const messagesResult = await ctx.client.session.messages({
     path: { id: sessionID }
   });
 
   if (messagesResult.error) {
     console.error('[smart-codebase] Failed to fetch messages:', messagesResult.error);
-    return '';
+    return { transcript: '', messageCount: sinceMessageIndex };
   }
 
   const messages = messagesResult.data;
   const transcriptLines: string[] = [];
 
-  for (let i = 0; i < messages.length; i++) {
+  for (let i = sinceMessageIndex; i < messages.length; i++) {
     const msg: any = (messages as any)[i];
     const role = getMessageRole(msg);
     if (role !== 'user' && role !== 'assistant') continue;
@@ -59,13 +85,22 @@ async function fetchConversation(ctx: PluginInput, sessionID: string): Promise<s
     transcriptLines.push(`[${i + 1}] ${who}${when}\n${text}`);
   }
 
-  return transcriptLines.join('\n\n');
+  return { transcript: transcriptLines.join('\n\n'), messageCount: messages.length };
 }
 
-async function getGitDiff(ctx: PluginInput): Promise<string> {
+/**
+ * Diff of the session's own work, limited to the given files (all files when empty).
+ * Compares the tree at session start (or the previous extraction) with the current working
+ * tree, so pre-existing uncommitted changes are left out while untracked files and
+ * in-session commits are included. Without a baseline it falls back to `git diff HEAD`.
+ */
+function getGitDiff(ctx: PluginInput, files: string[], baseline?: string, snapshot?: string | null): string {
+  // Skill files written by earlier extractions are not session work
+  const args = baseline && snapshot ? ['diff', baseline, snapshot] : ['diff', 'HEAD'];
+  args.push('--', ':(top,exclude).opencode/skills', ...files.filter(f => !isAbsolute(f)));
+
   try {
-    const { execSync } = await import('child_process');
-    return execSync('git diff HEAD', {
+    return execFileSync('git', args, {
       cwd: ctx.directory,
       encoding: 'utf-8',
       maxBuffer: 10 * 1024 * 1024
@@ -76,143 +111,288 @@ async function getGitDiff(ctx: PluginInput): Promise<string> {
   }
 }
 
+/**
+ * Drop the blocks of ignored files from a unified diff.
+ */
+function dropIgnoredFiles(diff: string, isIgnored: IgnoreMatcher): string {
+  return diff.split(/^(?=diff --git )/m).filter(block => {
+    const header = block.match(/^diff --git a\/(\S+) b\/(\S+)/);
+    return !header || !(isIgnored(header[1]) || isIgnored(header[2]));
+  }).join('');
+}
+
+/**
+ * One line per commit made since `since`, oldest first.
+ */
+function getSessionCommits(ctx: PluginInput, since?: string, head?: string | null): string {
+  if (!since || !head || since === head) return '';
+
+  try {
+    return execFileSync('git', ['log', '--reverse', '--format=- %h %s', `${since}..${head}`], {
+      cwd: ctx.directory,
+      encoding: 'utf-8',
+    }).trim();
+  } catch (error) {
+    console.error('[smart-codebase] Failed to list session commits:', error);
+    return '';
+  }
+}
+
 function formatToolCallsSummary(toolCalls: ToolCallRecord[]): string {
   return toolCalls
     .map(tc => {
       const timestamp = new Date(tc.timestamp).toISOString();
-      const target = tc.target ? ` on ${tc.target}` : '';
-      return `[${timestamp}] ${tc.tool}${target}`;
+      return `[${timestamp}] ${describeToolCall(tc)}`;
     })
     .join('\n');
 }
 
-async function extractCodeSnippets(ctx: PluginInput, toolCalls: ToolCallRecord[]): Promise<string> {
-  const readToolCalls = toolCalls.filter(tc => tc.tool === 'read' && tc.target && !isBinaryFile(tc.target));
-  
-  if (readToolCalls.length === 0) {
-    return '';
-  }
-
-  const snippets: string[] = [];
-  
-  for (const tc of readToolCalls) {
-    if (!tc.target) continue;
-    
-    try {
-      const { readFileSync } = await import('fs');
-      const { join } = await import('path');
-      const filePath = join(ctx.directory, tc.target);
-      const content = readFileSync(filePath, 'utf-8');
-      const lines = content.split('\n').slice(0, MAX_SNIPPET_LINES);
-      const snippet = `\n--- ${tc.target} (first ${MAX_SNIPPET_LINES} lines) ---\n${lines.join('\n')}`;
-      snippets.push(snippet);
-    } catch (error) {
-      continue;
-    }
-  }
-  
-  return snippets.join('\n\n');
+type Section = {
+  name: BudgetSection;
+  content: string;
+  importance: number;
+  /** Size before content was already left out upstream (snippets that did not fit). */
+  originalTokens?: number;
+};
+
+/**
+ * Resolve a configured budget: values up to 1 are a share of the total, larger values are tokens.
+ */
+function resolveBudget(value: number | undefined, maxTokens: number): number {
+  if (value === undefined || !Number.isFinite(value) || value < 0) return 0;
+  return Math.floor(value <= 1 ? value * maxTokens : value);
 }
 
-type Section = { name: string; content: string; importance: number };
+export function resolveBudgets(budgets: ExtractionBudgets | undefined, maxTokens: number): Record<BudgetSection, number> {
+  const merged = { ...DEFAULT_BUDGETS, ...budgets };
+  return {
+    conversation: resolveBudget(merged.conversation, maxTokens),
+    debuggingArcs: resolveBudget(merged.debuggingArcs, maxTokens),
+    diff: resolveBudget(merged.diff, maxTokens),
+    toolCalls: resolveBudget(merged.toolCalls, maxTokens),
+    snippets: resolveBudget(merged.snippets, maxTokens),
+  };
+}
 
-function truncateSections(
+/**
+ * Fit sections into the token budget. Each section first gets up to its own budget; budget
+ * left unused by small sections then goes to sections that need more, most important first.
+ * If the configured budgets add up to more than the total, the least important give way.
+ */
+export function allocateBudgets(
   sections: Section[],
-  maxTokens: number
-): { sections: Section[]; truncated: boolean; originalTokens: number } {
-  let totalTokens = sections.reduce((sum, s) => sum + estimateTokens(s.content), 0);
-  const originalTokens = totalTokens;
-  
-  if (totalTokens <= maxTokens) {
-    return { sections, truncated: false, originalTokens };
+  maxTokens: number,
+  budgets: Record<BudgetSection, number>
+): { sections: Section[]; truncated: boolean; usage: SectionBudgetUsage[] } {
+  const tokens = sections.map(s => estimateTokens(s.content));
+  const allocated = sections.map((s, i) => Math.min(tokens[i], budgets[s.name]));
+  const byImportance = sections.map((_, i) => i).sort((a, b) => sections[b].importance - sections[a].importance);
+
+  let slack = maxTokens - allocated.reduce((sum, t) => sum + t, 0);
+  for (const i of byImportance) {
+    if (slack <= 0) break;
+    const extra = Math.min(tokens[i] - allocated[i], slack);
+    allocated[i] += extra;
+    slack -= extra;
   }
-
-  const originalOrder = sections.map(s => s.name);
-  const byName = new Map(sections.map(s => [s.name, { ...s }]));
-  const working: Section[] = sections.map(s => ({ ...s }));
-
-  while (totalTokens > maxTokens && working.length > 0) {
-    working.sort((a, b) => a.importance - b.importance);
-    const victim = working[0];
-    const tokensToRemove = totalTokens - maxTokens;
-    const sectionTokens = estimateTokens(victim.content);
-    
-    if (sectionTokens <= tokensToRemove) {
-      byName.set(victim.name, { ...victim, content: '' });
-      totalTokens -= sectionTokens;
-      working.shift();
-    } else {
-      const targetLength = Math.floor((sectionTokens - tokensToRemove) * 4);
-      const truncatedContent = victim.content.substring(0, targetLength) + '\n... [truncated]';
-      byName.set(victim.name, { ...victim, content: truncatedContent });
-      totalTokens = maxTokens;
-      break;
-    }
+  for (const i of [...byImportance].reverse()) {
+    if (slack >= 0) break;
+    const cut = Math.min(allocated[i], -slack);
+    allocated[i] -= cut;
+    slack += cut;
   }
 
-  const finalSections = originalOrder.map((name) => byName.get(name)!).filter(Boolean);
-  return { sections: finalSections, truncated: true, originalTokens };
+  let truncated = false;
+  const fitted = sections.map((section, i) => {
+    if (tokens[i] <= allocated[i]) return section;
+    truncated = true;
+    const marker = estimateTokens(TRUNCATION_MARKER);
+    const content = allocated[i] > marker
+      ? truncateToTokens(section.content, allocated[i] - marker).trimEnd() + TRUNCATION_MARKER
+      : '';
+    return { ...section, content };
+  });
+
+  const usage = fitted.map((section, i) => ({
+    section: section.name,
+    tokens: section.originalTokens ?? tokens[i],
+    budget: budgets[section.name],
+    kept: estimateTokens(section.content),
+  }));
+
+  return { sections: fitted, truncated, usage };
+}
+
+/**
+ * One line per section, e.g. `diff 2000/3400 (budget 2000, dropped 1400)`.
+ */
+export function formatBudgetUsage(usage: SectionBudgetUsage[]): string {
+  return usage
+    .map(u => {
+      const dropped = u.tokens - u.kept;
+      return `${u.section} ${u.kept}/${u.tokens} (budget ${u.budget}${dropped > 0 ? `, dropped ${dropped}` : ''})`;
+    })
+    .join(', ');
 }
 
 export async function preprocessSessionSummary(
   ctx: PluginInput,
   sessionID: string,
   toolCalls: ToolCallRecord[],
-  options?: { maxTokens?: number }
+  options?: {
+    maxTokens?: number;
+    watermark?: ExtractionWatermark;
+    baseline?: SessionBaseline;
+    redaction?: RedactionConfig;
+    budgets?: ExtractionBudgets;
+    /** Project ignore rules; ignored files are left out of every section. */
+    ignore?: IgnoreMatcher;
+    /** Map step for chunked extraction; without it an over-budget conversation is truncated. */
+    summarizeConversation?: (transcript: string, budgetTokens: number) => Promise<string>;
+  }
 ): Promise<PreprocessedSummary> {
   const maxTokens = options?.maxTokens ?? DEFAULT_MAX_TOKENS;
-  const conversationContent = await fetchConversation(ctx, sessionID);
+  const budgets = resolveBudgets(options?.budgets, maxTokens);
+  const previous = options?.watermark;
+  const redactor = createRedactor(options?.redaction, ctx.directory);
+  let redactions = 0;
+  const redact = (text: string): string => {
+    const result = redactor.redact(text);
+    redactions += result.count;
+    return result.text;
+  };
 
-  const modifiedFiles = new Set(
-    toolCalls
-      .map(tc => tc.target)
-      .filter((t): t is string => !!t && !isBinaryFile(t))
+  const { transcript, messageCount } = await fetchConversation(
+    ctx,
+    sessionID,
+    previous?.messageIndex ?? 0
   );
+  let conversationContent = redact(transcript);
+  const snapshot = await snapshotWorkingTree(ctx.directory);
+  const head = await getHeadSha(ctx.directory);
+
+  // Denied files (.env etc.) stay visible as "something was touched" but never by name or content
+  const ignore = options?.ignore;
+  const trackedToolCalls = ignore ? toolCalls.filter(tc => !isIgnoredToolCall(tc, ignore)) : toolCalls;
+  const visibleToolCalls = trackedToolCalls.map(tc => {
+    const filePath = getFilePath(tc);
+    if ((filePath && redactor.isDeniedPath(filePath)) || (tc.target && redactor.isDeniedPath(tc.target))) {
+      redactions++;
+      return { ...tc, target: REDACTED_PATH, filePath: filePath ? REDACTED_PATH : undefined };
+    }
+    return tc;
+  });
 
-  const diffContent = modifiedFiles.size > 0 ? await getGitDiff(ctx) : '';
-
-  const modifiedFilesContent = Array.from(modifiedFiles)
+  const isVisibleFile = (f: string) => f !== REDACTED_PATH && !isBinaryFile(f);
+  const modifiedFiles = getEditedFiles(visibleToolCalls).filter(isVisibleFile);
+  const readOnlyFiles = getReadOnlyFiles(visibleToolCalls).filter(isVisibleFile);
+  const commands = getCommandsRun(visibleToolCalls);
+
+  // Commands can change files too (codegen, formatters), so they also warrant a diff
+  const fullDiff = modifiedFiles.length > 0 || commands.length > 0
+    ? getGitDiff(ctx, modifiedFiles, previous?.diffBaseline ?? options?.baseline?.tree, snapshot)
+    : '';
+  const rawDiff = ignore ? dropIgnoredFiles(fullDiff, ignore) : fullDiff;
+  const commits = getSessionCommits(ctx, previous?.head ?? options?.baseline?.head, head);
+  const redactedDiff = redactor.redactDiff(rawDiff);
+  redactions += redactedDiff.count;
+  const diffContent = commits
+    ? `Commits made in this session:\n${redact(commits)}\n\n${redactedDiff.text}`
+    : redactedDiff.text;
+
+  const modifiedFilesContent = redact(modifiedFiles
     .slice(0, 20)
     .map(f => `- ${f}`)
-    .join('\n');
-
-  const toolCallsContent = formatToolCallsSummary(toolCalls);
-  const snippetsContent = await extractCodeSnippets(ctx, toolCalls);
+    .join('\n'));
+  const filesReadContent = redact(readOnlyFiles
+    .slice(0, 20)
+    .map(f => `- ${f}`)
+    .join('\n'));
+  const commandsRunContent = redact(commands
+    .slice(-20)
+    .map(tc => `- ${describeToolCall(tc)}`)
+    .join('\n'));
+
+  const debuggingArcsContent = redact(formatDebuggingArcs(detectDebuggingArcs(visibleToolCalls)));
+  const toolCallsContent = redact(formatToolCallsSummary(visibleToolCalls));
+  const snippets = await collectCodeSnippets(ctx.directory, visibleToolCalls, {
+    diff: redactedDiff.text,
+    conversation: conversationContent,
+    isExcluded: f => f === REDACTED_PATH || isBinaryFile(f),
+  });
+  const snippetsContent = redact(fitSnippets(snippets, budgets.snippets)
+    .map(snippet => snippet.content)
+    .join('\n\n'));
+
+  // Over budget because of a long conversation: summarize it in windows instead of cutting off its end
+  let chunked = false;
+  const conversationTokens = estimateTokens(conversationContent);
+  const otherTokens = [debuggingArcsContent, diffContent, toolCallsContent, snippetsContent]
+    .reduce((sum, content) => sum + estimateTokens(content), 0);
+  if (options?.summarizeConversation && conversationTokens > budgets.conversation && conversationTokens + otherTokens > maxTokens) {
+    console.log(`[smart-codebase] Conversation (~${conversationTokens} tokens) exceeds the budget, summarizing in windows`);
+    conversationContent = await options.summarizeConversation(conversationContent, budgets.conversation);
+    chunked = true;
+  }
 
   const sections: Section[] = [
-    { name: 'Conversation', content: conversationContent, importance: 100 },
-    { name: 'Diff', content: diffContent, importance: 80 },
-    { name: 'ToolCalls', content: toolCallsContent, importance: 60 },
-    { name: 'Snippets', content: snippetsContent, importance: 40 }
+    { name: 'conversation', content: conversationContent, importance: 100 },
+    { name: 'debuggingArcs', content: debuggingArcsContent, importance: 90 },
+    { name: 'diff', content: diffContent, importance: 80 },
+    { name: 'toolCalls', content: toolCallsContent, importance: 60 },
+    {
+      name: 'snippets',
+      content: snippetsContent,
+      importance: 40,
+      originalTokens: snippets.reduce((sum, snippet) => sum + estimateTokens(snippet.content), 0),
+    },
   ];
 
-  const { sections: truncatedSections, truncated, originalTokens } = truncateSections(sections, maxTokens);
+  const { sections: fittedSections, truncated, usage } = allocateBudgets(sections, maxTokens, budgets);
 
-  const finalConversation = truncatedSections.find(s => s.name === 'Conversation')?.content || '';
-  const finalDiff = truncatedSections.find(s => s.name === 'Diff')?.content || '';
-  const finalToolCalls = truncatedSections.find(s => s.name === 'ToolCalls')?.content || '';
-  const finalSnippets = truncatedSections.find(s => s.name === 'Snippets')?.content || '';
+  const finalConversation = fittedSections.find(s => s.name === 'conversation')?.content || '';
+  const finalDebuggingArcs = fittedSections.find(s => s.name === 'debuggingArcs')?.content || '';
+  const finalDiff = fittedSections.find(s => s.name === 'diff')?.content || '';
+  const finalToolCalls = fittedSections.find(s => s.name === 'toolCalls')?.content || '';
+  const finalSnippets = fittedSections.find(s => s.name === 'snippets')?.content || '';
 
-  const conversationTokens = estimateTokens(finalConversation);
-  const diffTokens = estimateTokens(finalDiff);
-  const toolCallTokens = estimateTokens(finalToolCalls);
-  const snippetTokens = estimateTokens(finalSnippets);
-  const totalTokens = conversationTokens + diffTokens + toolCallTokens + snippetTokens;
+  const totalTokens = usage.reduce((sum, u) => sum + u.kept, 0);
+  const originalTokens = usage.reduce((sum, u) => sum + u.tokens, 0);
 
   console.log(`[smart-codebase] Pre-processed summary: ~${totalTokens} tokens`);
-  console.log(`[smart-codebase] Sections: Conversation=${conversationTokens}, Diff=${diffTokens}, ToolCalls=${toolCallTokens}, Snippets=${snippetTokens}`);
+  console.log(`[smart-codebase] Token budget (max ${maxTokens}): ${formatBudgetUsage(usage)}`);
 
-  if (truncated) {
+  if (truncated || originalTokens > totalTokens) {
     console.log(`[smart-codebase] Truncated to ${maxTokens} tokens (original: ${originalTokens})`);
   }
 
+  if (redactions > 0) {
+    console.log(`[smart-codebase] Redacted ${redactions} secret/PII items from the extraction context`);
+  }
+
+  if (previous) {
+    console.log(`[smart-codebase] Incremental extraction from message ${previous.messageIndex + 1}${previous.diffBaseline ? ` and tree ${previous.diffBaseline.slice(0, 8)}` : ''}`);
+  }
+
   return {
     conversation: finalConversation,
     modifiedFiles: modifiedFilesContent,
+    filesRead: filesReadContent,
+    commandsRun: commandsRunContent,
+    debuggingArcs: finalDebuggingArcs,
     gitDiff: finalDiff,
     toolCallsSummary: finalToolCalls,
     codeSnippets: finalSnippets,
     totalTokens,
-    truncated
+    truncated: truncated || originalTokens > totalTokens,
+    chunked,
+    budget: usage,
+    watermark: {
+      messageIndex: messageCount,
+      diffBaseline: snapshot ?? undefined,
+      head: head ?? undefined,
+    },
+    incremental: !!previous,
+    redactions,
   };
 }
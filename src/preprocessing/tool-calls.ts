@@ -0,0 +1,196 @@
+import { isAbsolute, relative } from "path";
+import type { ToolCallRecord, ToolOperation } from "../types";
+import { normalizeRelativePath } from "../utils/glob";
+
+const WRITE_TOOLS = ['write', 'edit', 'multiedit', 'patch', 'apply_patch'];
+const READ_TOOLS = ['read', 'webfetch'];
+const SEARCH_TOOLS = ['grep', 'glob', 'list', 'codesearch', 'websearch'];
+const EXEC_TOOLS = ['bash', 'shell'];
+const MAX_EXCERPT_LINES = 8;
+const MAX_EXCERPT_CHARS = 600;
+const ERROR_LINE = /\b(error|fail(ed|ure)?|exception|panic|assert(ion)?|expected|cannot|not found|undefined|traceback)\b/i;
+
+export function classifyTool(toolName: string): ToolOperation {
+  if (WRITE_TOOLS.includes(toolName)) return 'write';
+  if (READ_TOOLS.includes(toolName)) return 'read';
+  if (SEARCH_TOOLS.includes(toolName)) return 'search';
+  if (EXEC_TOOLS.includes(toolName)) return 'exec';
+  return 'other';
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Pick the lines of a failed command's output that explain the failure,
+ * falling back to the tail when no line looks like an error.
+ */
+export function extractErrorExcerpt(output: string): string | undefined {
+  const lines = output.split('\n').map(l => l.trimEnd()).filter(l => l.trim());
+  if (lines.length === 0) return undefined;
+
+  const errorLines = lines.filter(l => ERROR_LINE.test(l));
+  const picked = (errorLines.length > 0 ? errorLines : lines).slice(-MAX_EXCERPT_LINES).join('\n');
+
+  return picked.length > MAX_EXCERPT_CHARS ? `${picked.slice(0, MAX_EXCERPT_CHARS)}…` : picked;
+}
+
+/**
+ * Make a tool-supplied path project-relative. Paths outside the project stay absolute.
+ */
+export function toProjectPath(path: string, projectRoot: string): string {
+  if (isAbsolute(path)) {
+    const rel = relative(projectRoot, path);
+    if (rel && !rel.startsWith('..') && !isAbsolute(rel)) {
+      return normalizeRelativePath(rel);
+    }
+    return path;
+  }
+  return normalizeRelativePath(path);
+}
+
+/**
+ * Build a tool call record from the `tool.execute.after` hook input and output.
+ * File paths, commands and search patterns come from the call arguments; the output
+ * title is kept as `target` and only used as a file path when the arguments lack one.
+ */
+export function createToolCallRecord(
+  toolName: string,
+  args: unknown,
+  output: { title?: unknown; output?: unknown; metadata?: unknown },
+  projectRoot: string,
+  startedAt?: number
+): ToolCallRecord {
+  const timestamp = Date.now();
+  const operation = classifyTool(toolName);
+  const a = (args && typeof args === 'object' ? args : {}) as Record<string, unknown>;
+  const metadata = (output.metadata && typeof output.metadata === 'object' ? output.metadata : {}) as Record<string, unknown>;
+  const target = asString(output.title);
+
+  const record: ToolCallRecord = { tool: toolName, target, operation, timestamp };
+
+  const rawPath = asString(a.filePath) ?? asString(a.path) ?? asString(a.file_path);
+  if (operation === 'write' || (operation === 'read' && toolName === 'read')) {
+    const filePath = rawPath ?? target;
+    if (filePath) record.filePath = toProjectPath(filePath, projectRoot);
+  } else if (operation === 'search' && rawPath) {
+    record.filePath = toProjectPath(rawPath, projectRoot);
+  }
+
+  const offset = asNumber(a.offset);
+  if (toolName === 'read' && offset !== undefined) {
+    record.startLine = offset + 1;
+    const limit = asNumber(a.limit);
+    if (limit !== undefined) record.endLine = offset + limit;
+  }
+
+  const command = asString(a.command);
+  if (command) record.command = command;
+
+  const pattern = asString(a.pattern) ?? asString(a.query);
+  if (pattern) record.pattern = pattern;
+
+  const exitCode = asNumber(metadata.exit) ?? asNumber(metadata.exitCode);
+  if (exitCode !== undefined) record.exitCode = exitCode;
+
+  if (operation === 'exec' && exitCode !== undefined && exitCode !== 0 && typeof output.output === 'string') {
+    const errorExcerpt = extractErrorExcerpt(output.output);
+    if (errorExcerpt) record.errorExcerpt = errorExcerpt;
+  }
+
+  if (startedAt !== undefined) record.durationMs = Math.max(0, timestamp - startedAt);
+
+  return record;
+}
+
+/**
+ * Operation of a record. Records journaled before operations were captured are classified by tool name.
+ */
+export function getOperation(tc: ToolCallRecord): ToolOperation {
+  return tc.operation ?? classifyTool(tc.tool);
+}
+
+/**
+ * File a record refers to, falling back to the output title for older file-tool records.
+ */
+export function getFilePath(tc: ToolCallRecord): string | undefined {
+  if (tc.filePath) return tc.filePath;
+  if (tc.operation) return undefined;
+  const operation = classifyTool(tc.tool);
+  return operation === 'write' || tc.tool === 'read' ? tc.target : undefined;
+}
+
+/**
+ * Whether a record reads, edits or searches a path matched by the project ignore rules.
+ */
+export function isIgnoredToolCall(tc: ToolCallRecord, isIgnored: (filePath: string) => boolean): boolean {
+  const filePath = getFilePath(tc);
+  return filePath !== undefined && isIgnored(filePath);
+}
+
+function uniqueFiles(toolCalls: ToolCallRecord[], operation: ToolOperation): string[] {
+  const files = new Set<string>();
+  for (const tc of toolCalls) {
+    if (getOperation(tc) !== operation) continue;
+    const filePath = getFilePath(tc);
+    if (filePath) files.add(filePath);
+  }
+  return Array.from(files);
+}
+
+/**
+ * Files changed by write tools (write, edit, patch), in first-touched order.
+ */
+export function getEditedFiles(toolCalls: ToolCallRecord[]): string[] {
+  return uniqueFiles(toolCalls, 'write');
+}
+
+/**
+ * Files that were read but never edited in the session.
+ */
+export function getReadOnlyFiles(toolCalls: ToolCallRecord[]): string[] {
+  const edited = new Set(getEditedFiles(toolCalls));
+  return uniqueFiles(toolCalls, 'read').filter(f => !edited.has(f));
+}
+
+/**
+ * Shell commands run in the session, with their exit status when known.
+ */
+export function getCommandsRun(toolCalls: ToolCallRecord[]): ToolCallRecord[] {
+  return toolCalls.filter(tc => getOperation(tc) === 'exec' && (tc.command || tc.target));
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * One-line description of a tool call, e.g. `bash: bun test (exit 1, 2.3s)` or `grep "TODO" in src`.
+ */
+export function describeToolCall(tc: ToolCallRecord): string {
+  const operation = getOperation(tc);
+  const filePath = getFilePath(tc);
+  let text: string;
+
+  if (operation === 'exec' && tc.command) {
+    text = `${tc.tool}: ${tc.command}`;
+  } else if (operation === 'search' && tc.pattern) {
+    text = `${tc.tool} "${tc.pattern}"${filePath ? ` in ${filePath}` : ''}`;
+  } else if (filePath) {
+    text = `${tc.tool} ${filePath}`;
+  } else {
+    text = tc.target ? `${tc.tool} on ${tc.target}` : tc.tool;
+  }
+
+  const details = [
+    tc.exitCode !== undefined && `exit ${tc.exitCode}`,
+    tc.durationMs !== undefined && formatDuration(tc.durationMs),
+  ].filter(Boolean);
+
+  return details.length > 0 ? `${text} (${details.join(', ')})` : text;
+}
@@ -0,0 +1,92 @@
+import { join } from 'path';
+import { fileExists, findFiles, readTextFile } from '../utils/fs-compat';
+import { getProjectRootDir } from '../utils/git';
+import type { SkillFormatOptions } from '../types';
+import {
+  getProjectSkillName,
+  parseModuleSkill,
+  rewriteModuleSkill,
+  type SkillConflict,
+  type SkillContent,
+} from './knowledge-writer';
+
+export type ConflictSide = 'existing' | 'proposed';
+
+export interface ConflictEntry {
+  /** Module skill file name without extension (e.g. src-payments). */
+  skill: string;
+  conflict: SkillConflict;
+}
+
+async function getModulesDir(projectRoot: string): Promise<string> {
+  const rootDir = await getProjectRootDir(projectRoot);
+  const projectName = await getProjectSkillName(projectRoot);
+  return join(rootDir, '.opencode', 'skills', projectName, 'modules');
+}
+
+export async function listConflicts(projectRoot: string): Promise<ConflictEntry[]> {
+  const modulesDir = await getModulesDir(projectRoot);
+  if (!(await fileExists(modulesDir))) {
+    return [];
+  }
+
+  const entries: ConflictEntry[] = [];
+  for (const file of (await findFiles('*.md', { cwd: modulesDir, absolute: false })).sort()) {
+    try {
+      const skill = parseModuleSkill(await readTextFile(join(modulesDir, file)));
+      for (const conflict of skill.conflicts ?? []) {
+        entries.push({ skill: file.replace(/\.md$/, ''), conflict });
+      }
+    } catch (error) {
+      console.error(`[smart-codebase] Failed to read conflicts from ${file}:`, error);
+    }
+  }
+  return entries;
+}
+
+function applyProposedClaim(skill: SkillContent, conflict: SkillConflict): SkillContent {
+  const key = conflict.section.trim().toLowerCase();
+  const index = skill.sections.findIndex(s => s.heading.trim().toLowerCase() === key);
+
+  if (index === -1) {
+    return { ...skill, sections: [...skill.sections, { heading: conflict.section, content: conflict.proposed }] };
+  }
+
+  const section = skill.sections[index];
+  if (section.pinned) {
+    throw new Error(`Section "${section.heading}" is pinned; edit it by hand, then resolve the conflict keeping "existing"`);
+  }
+
+  const content = section.content.includes(conflict.existing)
+    ? section.content.replace(conflict.existing, () => conflict.proposed)
+    : `${section.content.trimEnd()}\n${conflict.proposed}`;
+
+  const sections = [...skill.sections];
+  sections[index] = { ...section, content };
+  return { ...skill, sections };
+}
+
+/**
+ * Resolve a conflict by keeping one side. Keeping "proposed" rewrites the section claim
+ * (or appends it when the old wording can't be found); keeping "existing" only drops the record.
+ */
+export async function resolveConflict(
+  projectRoot: string,
+  id: string,
+  keep: ConflictSide,
+  format?: SkillFormatOptions
+): Promise<ConflictEntry> {
+  const entry = (await listConflicts(projectRoot)).find(e => e.conflict.id === id);
+  if (!entry) {
+    throw new Error(`No conflict with id "${id}"`);
+  }
+
+  const skillPath = join(await getModulesDir(projectRoot), `${entry.skill}.md`);
+  await rewriteModuleSkill(skillPath, (skill) => {
+    const updated = keep === 'proposed' ? applyProposedClaim(skill, entry.conflict) : skill;
+    const conflicts = (updated.conflicts ?? []).filter(c => c.id !== id);
+    return { ...updated, conflicts };
+  }, format, { source: `sc-conflicts keep=${keep}` });
+
+  return entry;
+}
@@ -0,0 +1,275 @@
+import { join } from 'path';
+import type { ToolCallRecord, ExtractionWatermark, SessionBaseline, SectionBudgetUsage } from '../types';
+import { fileExists, readTextFile, writeTextFileAtomic } from '../utils/fs-compat';
+import { getStateDir } from './state-dir';
+
+const JOURNAL_FILE = 'extraction-journal.json';
+const JOURNAL_VERSION = 1;
+
+/** Sessions untouched for this long are dropped when the journal is loaded. */
+const JOURNAL_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+export const MAX_EXTRACTION_RETRIES = 5;
+
+export interface ExtractionJob {
+  status: 'pending' | 'running';
+  /** Epoch ms at which the job should (re)run. */
+  runAt: number;
+  /** Number of failed attempts so far. */
+  attempts: number;
+  lastError?: string;
+}
+
+export interface JournalSession {
+  toolCalls: ToolCallRecord[];
+  job?: ExtractionJob;
+  /** What previous extractions already covered; absent until the first success. */
+  watermark?: ExtractionWatermark;
+  /** Repository state when the session started. */
+  baseline?: SessionBaseline;
+  updatedAt: number;
+}
+
+/** Token budget breakdown of the most recent extraction, shown by /sc-status. */
+export interface BudgetReport {
+  sessionID: string;
+  timestamp: number;
+  maxTokens: number;
+  chunked: boolean;
+  sections: SectionBudgetUsage[];
+}
+
+export interface ExtractionJournal {
+  version: number;
+  sessions: Record<string, JournalSession>;
+  lastBudget?: BudgetReport;
+}
+
+const journalPaths = new Map<string, Promise<string>>();
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function emptyJournal(): ExtractionJournal {
+  return { version: JOURNAL_VERSION, sessions: {} };
+}
+
+async function getJournalPath(projectRoot: string): Promise<string> {
+  if (!journalPaths.has(projectRoot)) {
+    const pending = getStateDir(projectRoot).then(dir => join(dir, JOURNAL_FILE));
+    pending.catch(() => journalPaths.delete(projectRoot));
+    journalPaths.set(projectRoot, pending);
+  }
+  return journalPaths.get(projectRoot)!;
+}
+
+/**
+ * Exponential backoff for transient extraction failures: 30s, 60s, 120s... capped at 30min.
+ */
+export function computeRetryDelay(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** exponent, RETRY_MAX_DELAY_MS);
+}
+
+export async function readJournal(projectRoot: string): Promise<ExtractionJournal> {
+  const journalPath = await getJournalPath(projectRoot);
+  if (!(await fileExists(journalPath))) {
+    return emptyJournal();
+  }
+
+  try {
+    const parsed = JSON.parse(await readTextFile(journalPath)) as ExtractionJournal;
+    if (parsed?.version !== JOURNAL_VERSION || typeof parsed.sessions !== 'object') {
+      return emptyJournal();
+    }
+
+    const cutoff = Date.now() - JOURNAL_MAX_AGE_MS;
+    for (const [sessionID, session] of Object.entries(parsed.sessions)) {
+      if (!session || session.updatedAt < cutoff) {
+        delete parsed.sessions[sessionID];
+      }
+    }
+    return parsed;
+  } catch (error) {
+    console.error(`[smart-codebase] Failed to read extraction journal, starting fresh:`, error);
+    return emptyJournal();
+  }
+}
+
+/**
+ * Read-modify-write the journal. Updates for the same project are applied one at a time.
+ */
+async function updateJournal(
+  projectRoot: string,
+  mutate: (journal: ExtractionJournal) => void
+): Promise<ExtractionJournal> {
+  const journalPath = await getJournalPath(projectRoot);
+  const previous = writeQueues.get(journalPath) ?? Promise.resolve();
+
+  const next = previous.catch(() => {}).then(async () => {
+    const journal = await readJournal(projectRoot);
+    mutate(journal);
+    await writeTextFileAtomic(journalPath, JSON.stringify(journal, null, 2) + '\n');
+    return journal;
+  });
+
+  writeQueues.set(journalPath, next);
+  return next;
+}
+
+function getSession(journal: ExtractionJournal, sessionID: string): JournalSession {
+  if (!journal.sessions[sessionID]) {
+    journal.sessions[sessionID] = { toolCalls: [], updatedAt: Date.now() };
+  }
+  const session = journal.sessions[sessionID];
+  session.updatedAt = Date.now();
+  return session;
+}
+
+export async function appendToolCall(
+  projectRoot: string,
+  sessionID: string,
+  record: ToolCallRecord
+): Promise<void> {
+  await updateJournal(projectRoot, journal => {
+    getSession(journal, sessionID).toolCalls.push(record);
+  });
+}
+
+export async function scheduleExtractionJob(
+  projectRoot: string,
+  sessionID: string,
+  runAt: number
+): Promise<void> {
+  await updateJournal(projectRoot, journal => {
+    const session = getSession(journal, sessionID);
+    session.job = {
+      status: 'pending',
+      runAt,
+      attempts: session.job?.attempts ?? 0,
+      lastError: session.job?.lastError,
+    };
+  });
+}
+
+export async function markExtractionRunning(projectRoot: string, sessionID: string): Promise<void> {
+  await updateJournal(projectRoot, journal => {
+    const session = getSession(journal, sessionID);
+    session.job = {
+      attempts: 0,
+      ...session.job,
+      status: 'running',
+      runAt: Date.now(),
+    };
+  });
+}
+
+/**
+ * Record a transient failure and push the job back with backoff.
+ * Returns the rescheduled job, or undefined once retries are exhausted (the job is dropped).
+ */
+export async function recordExtractionFailure(
+  projectRoot: string,
+  sessionID: string,
+  error: string
+): Promise<ExtractionJob | undefined> {
+  let rescheduled: ExtractionJob | undefined;
+
+  await updateJournal(projectRoot, journal => {
+    const session = getSession(journal, sessionID);
+    const attempts = (session.job?.attempts ?? 0) + 1;
+
+    if (attempts > MAX_EXTRACTION_RETRIES) {
+      delete session.job;
+      return;
+    }
+
+    rescheduled = {
+      status: 'pending',
+      runAt: Date.now() + computeRetryDelay(attempts),
+      attempts,
+      lastError: error,
+    };
+    session.job = rescheduled;
+  });
+
+  return rescheduled;
+}
+
+/** Drop the pending job but keep the tracked tool calls. */
+export async function clearExtractionJob(projectRoot: string, sessionID: string): Promise<void> {
+  await updateJournal(projectRoot, journal => {
+    if (journal.sessions[sessionID]) {
+      delete journal.sessions[sessionID].job;
+    }
+  });
+}
+
+export async function getExtractionWatermark(
+  projectRoot: string,
+  sessionID: string
+): Promise<ExtractionWatermark | undefined> {
+  const journal = await readJournal(projectRoot);
+  return journal.sessions[sessionID]?.watermark;
+}
+
+/** Record the session-start baseline. An existing baseline is never replaced. */
+export async function recordSessionBaseline(
+  projectRoot: string,
+  sessionID: string,
+  baseline: SessionBaseline
+): Promise<void> {
+  await updateJournal(projectRoot, journal => {
+    const session = getSession(journal, sessionID);
+    if (!session.baseline) {
+      session.baseline = baseline;
+    }
+  });
+}
+
+export async function getSessionBaseline(
+  projectRoot: string,
+  sessionID: string
+): Promise<SessionBaseline | undefined> {
+  const journal = await readJournal(projectRoot);
+  return journal.sessions[sessionID]?.baseline;
+}
+
+/**
+ * Mark a successful extraction: drop the first `consumedCalls` tool calls, which the run
+ * covered, and advance the watermark. Calls tracked while the run was in flight stay; the
+ * job is only dropped when none are left.
+ */
+export async function completeExtraction(
+  projectRoot: string,
+  sessionID: string,
+  watermark: ExtractionWatermark,
+  consumedCalls: number
+): Promise<void> {
+  await updateJournal(projectRoot, journal => {
+    const session = getSession(journal, sessionID);
+    session.toolCalls = session.toolCalls.slice(consumedCalls);
+    if (session.toolCalls.length === 0) {
+      delete session.job;
+    }
+    session.watermark = watermark;
+  });
+}
+
+export async function recordBudgetReport(projectRoot: string, report: BudgetReport): Promise<void> {
+  await updateJournal(projectRoot, journal => {
+    journal.lastBudget = report;
+  });
+}
+
+export async function getLastBudgetReport(projectRoot: string): Promise<BudgetReport | undefined> {
+  const journal = await readJournal(projectRoot);
+  return journal.lastBudget;
+}
+
+/** Forget a session entirely (session deleted). */
+export async function clearJournalSession(projectRoot: string, sessionID: string): Promise<void> {
+  await updateJournal(projectRoot, journal => {
+    delete journal.sessions[sessionID];
+  });
+}
@@ -1,7 +1,19 @@
 import { mkdir } from 'fs/promises';
+import { createHash } from 'crypto';
 import { join, dirname, relative, resolve, isAbsolute, basename } from 'path';
-import { fileExists, readTextFile, writeTextFile, sleep, removeFile } from '../utils/fs-compat';
+import { fileExists, findFiles, readTextFile, writeTextFileAtomic } from '../utils/fs-compat';
+import { acquireLock, releaseLock } from '../utils/lock';
+import { recordRevision, type RevisionSource } from './skill-history';
 import { getGitRoot, getProjectRootDir } from '../utils/git';
+import type { SkillFormatOptions } from '../types';
+import {
+  formatFrontmatter,
+  frontmatterMapping,
+  frontmatterString,
+  readFrontmatter,
+  stripFrontmatter,
+  type Frontmatter,
+} from '../utils/frontmatter';
 
 export interface SkillMetadata {
   name: string;
@@ -12,24 +24,197 @@ export interface SkillContent {
   metadata: SkillMetadata;
   sections: SkillSection[];
   relatedFiles?: string[];
+  /** Unresolved contradictions between existing and newly extracted claims. */
+  conflicts?: SkillConflict[];
 }
 
+export interface SkillConflict {
+  id: string;
+  /** Heading of the existing section the claims belong to. */
+  section: string;
+  existing: string;
+  proposed: string;
+  evidence?: string;
+}
+
+export const SECTION_KINDS = ['gotcha', 'decision', 'pattern', 'recipe', 'glossary', 'open-question'] as const;
+export type SectionKind = typeof SECTION_KINDS[number];
+
+export const SECTION_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+export type SectionSeverity = typeof SECTION_SEVERITIES[number];
+
 export interface SkillSection {
   heading: string;
   content: string;
+  kind?: SectionKind;
+  severity?: SectionSeverity;
+  /** Human-owned section (marked with PINNED_MARKER); extraction never changes it. */
+  pinned?: boolean;
+  /** Exact text of a pinned section as found in the file, heading line included. */
+  raw?: string;
 }
 
 export interface IndexEntry {
   name: string;
   description: string;
   location: string;
+  /** Number of sections per kind in the skill, shown in the index. */
+  kinds?: Partial<Record<SectionKind, number>>;
 }
 
-export async function writeModuleSkill(
+export function isSectionKind(value: unknown): value is SectionKind {
+  return typeof value === 'string' && (SECTION_KINDS as readonly string[]).includes(value);
+}
+
+export function isSectionSeverity(value: unknown): value is SectionSeverity {
+  return typeof value === 'string' && (SECTION_SEVERITIES as readonly string[]).includes(value);
+}
+
+/**
+ * Count sections per kind, in SECTION_KINDS order. Untyped sections are not counted.
+ */
+export function countSectionKinds(sections: SkillSection[]): Partial<Record<SectionKind, number>> {
+  const counts: Partial<Record<SectionKind, number>> = {};
+  for (const kind of SECTION_KINDS) {
+    const count = sections.filter(s => s.kind === kind).length;
+    if (count > 0) counts[kind] = count;
+  }
+  return counts;
+}
+
+/**
+ * The project skill directory, `.opencode/skills/<project>`: the index (SKILL.md) plus one
+ * file per module under modules/. This is the only layout the plugin writes; legacy
+ * `<module>/.knowledge/SKILL.md` files are moved into it by sc-migrate.
+ */
+export async function getProjectSkillDir(projectRoot: string): Promise<string> {
+  const rootDir = await getProjectRootDir(projectRoot);
+  const projectName = await getProjectSkillName(projectRoot);
+  return join(rootDir, '.opencode', 'skills', projectName);
+}
+
+export async function getModuleSkillPath(projectRoot: string, modulePath: string): Promise<string> {
+  return join(await getProjectSkillDir(projectRoot), 'modules', `${toSkillName(modulePath)}.md`);
+}
+
+export interface SectionChanges {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  /** Ids of conflicts recorded by this write. */
+  conflicts: string[];
+}
+
+export interface WriteSkillOptions {
+  format?: SkillFormatOptions;
+  /** Headings of existing sections to delete. Sections not listed here are never dropped. */
+  removedSections?: string[];
+  /** Ignored paths are dropped from relatedFiles, including ones listed by earlier extractions. */
+  isIgnored?: (filePath: string) => boolean;
+  /** What is making this write, recorded in the skill history. Default: extraction */
+  revision?: RevisionSource;
+}
+
+function headingKey(heading: string): string {
+  return heading.trim().toLowerCase();
+}
+
+/** Extracted sections never carry pinned state; only a human edit can pin. */
+function toPlainSection(section: SkillSection): SkillSection {
+  return {
+    heading: section.heading,
+    content: section.content,
+    ...(section.kind && { kind: section.kind }),
+    ...(section.severity && { severity: section.severity }),
+  };
+}
+
+/**
+ * Merge extracted knowledge into an existing skill by section heading (case-insensitive).
+ * Existing sections keep their position and survive unless listed in removedSections;
+ * pinned sections are never replaced or removed. Related files are unioned.
+ */
+export function mergeSkillContent(
+  existing: SkillContent | null,
+  incoming: SkillContent,
+  removedSections: string[] = []
+): { skill: SkillContent; changes: SectionChanges } {
+  const changes: SectionChanges = { added: [], updated: [], removed: [], conflicts: [] };
+  const incomingByKey = new Map(incoming.sections.map(s => [headingKey(s.heading), s]));
+  const removedKeys = new Set(removedSections.map(headingKey));
+  const sections: SkillSection[] = [];
+  const seen = new Set<string>();
+
+  for (const section of existing?.sections ?? []) {
+    const key = headingKey(section.heading);
+    seen.add(key);
+    const replacement = incomingByKey.get(key);
+
+    if (section.pinned) {
+      if (replacement || removedKeys.has(key)) {
+        console.log(`[smart-codebase] Keeping pinned section "${section.heading}" unchanged`);
+      }
+      sections.push(section);
+    } else if (replacement) {
+      const merged = toPlainSection({
+        ...replacement,
+        kind: replacement.kind ?? section.kind,
+        severity: replacement.severity ?? section.severity,
+      });
+      if (
+        merged.content.trim() !== section.content.trim() ||
+        merged.heading !== section.heading ||
+        merged.kind !== section.kind ||
+        merged.severity !== section.severity
+      ) {
+        changes.updated.push(merged.heading);
+      }
+      sections.push(merged);
+    } else if (removedKeys.has(key)) {
+      changes.removed.push(section.heading);
+    } else {
+      sections.push(section);
+    }
+  }
+
+  for (const section of incoming.sections) {
+    const key = headingKey(section.heading);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    changes.added.push(section.heading);
+    sections.push(toPlainSection(section));
+  }
+
+  const relatedFiles = Array.from(new Set([...(existing?.relatedFiles ?? []), ...(incoming.relatedFiles ?? [])]));
+
+  const conflicts = [...(existing?.conflicts ?? [])];
+  for (const conflict of incoming.conflicts ?? []) {
+    if (conflicts.some(c => c.id === conflict.id)) continue;
+    conflicts.push(conflict);
+    changes.conflicts.push(conflict.id);
+  }
+
+  return {
+    skill: {
+      metadata: incoming.metadata,
+      sections,
+      relatedFiles,
+      ...(conflicts.length > 0 && { conflicts }),
+    },
+    changes,
+  };
+}
+
+/**
+ * Merge a skill into its module file and report which sections changed, along with the
+ * file content before and after the write ('' when the file did not exist).
+ */
+export async function mergeModuleSkill(
   projectRoot: string,
   modulePath: string,
-  skill: SkillContent
-): Promise<string> {
+  skill: SkillContent,
+  options: WriteSkillOptions = {}
+): Promise<{ path: string; skill: SkillContent; changes: SectionChanges; previousContent: string; content: string }> {
   const rootDir = await getProjectRootDir(projectRoot);
   const projectName = await getProjectSkillName(projectRoot);
   const skillName = toSkillName(modulePath);
@@ -39,7 +224,7 @@ export async function writeModuleSkill(
 
   await mkdir(skillDir, { recursive: true });
 
-  const lock = await acquireLock(lockFile, 5000);
+  const lock = await acquireLock(lockFile);
 
   try {
     let existingContent = '';
@@ -47,104 +232,409 @@ export async function writeModuleSkill(
       existingContent = await readTextFile(skillPath);
     }
 
-    const content = formatSkillContent(skill, existingContent);
-    await writeTextFile(skillPath, content);
-    return skillPath;
+    const existing = existingContent ? parseModuleSkill(existingContent) : null;
+    const merged = mergeSkillContent(existing, skill, options.removedSections);
+    if (options.isIgnored) {
+      merged.skill.relatedFiles = merged.skill.relatedFiles?.filter(f => !options.isIgnored!(f));
+    }
+
+    const content = formatSkillContent(merged.skill, existingContent, options.format);
+    if (content !== existingContent) {
+      await writeTextFileAtomic(skillPath, content);
+      await recordRevision(skillPath, existingContent, content, options.revision ?? { source: 'extraction' });
+    }
+    return { path: skillPath, skill: merged.skill, changes: merged.changes, previousContent: existingContent, content };
+  } finally {
+    await releaseLock(lock);
+  }
+}
+
+/**
+ * Rewrite an existing module skill file in place under the module lock.
+ */
+export async function rewriteModuleSkill(
+  skillPath: string,
+  transform: (skill: SkillContent) => SkillContent,
+  format?: SkillFormatOptions,
+  revision: RevisionSource = { source: 'rewrite' }
+): Promise<SkillContent> {
+  const lock = await acquireLock(join(dirname(skillPath), '.lock'));
+
+  try {
+    const existingContent = await readTextFile(skillPath);
+    const skill = transform(parseModuleSkill(existingContent));
+    const content = formatSkillContent(skill, existingContent, format);
+    if (content !== existingContent) {
+      await writeTextFileAtomic(skillPath, content);
+      await recordRevision(skillPath, existingContent, content, revision);
+    }
+    return skill;
   } finally {
     await releaseLock(lock);
   }
 }
 
-function formatSkillContent(skill: SkillContent, existingContent?: string): string {
+export async function writeModuleSkill(
+  projectRoot: string,
+  modulePath: string,
+  skill: SkillContent,
+  options: WriteSkillOptions = {}
+): Promise<string> {
+  const { path } = await mergeModuleSkill(projectRoot, modulePath, skill, options);
+  return path;
+}
+
+export const RELATED_FILES_HEADING = 'Related files';
+export const CONFLICTS_HEADING = 'Conflicts';
+/** Put on the heading line or the first line of a section to pin it. */
+export const PINNED_MARKER = '<!-- pinned -->';
+const PINNED_MARKER_PATTERN = /<!--\s*pinned\s*-->/i;
+// "> **gotcha** · critical" on the first line of a section
+const SECTION_BADGE_PATTERN = /^>\s*\*\*([a-z-]+)\*\*(?:\s*·\s*([a-z]+))?\s*(?:\n|$)/;
+
+function formatSectionBadge(section: SkillSection): string | null {
+  if (!section.kind) return null;
+  return section.severity ? `> **${section.kind}** · ${section.severity}` : `> **${section.kind}**`;
+}
+const TOC_LABEL = '**Contents**';
+const TRUNCATED_MARKER = '…(truncated)';
+
+function parseRelatedFiles(content: string): string[] {
+  return content
+    .split('\n')
+    .map(line =>
+      line.match(/^-\s+`?([^`]+)`?$/)?.[1] ??
+      line.match(/^\|\s*`([^`]+)`\s*\|$/)?.[1]
+    )
+    .filter((f): f is string => !!f);
+}
+
+/**
+ * Stable id for a conflict, so re-extracting the same contradiction doesn't record it twice.
+ */
+export function getConflictId(section: string, existing: string, proposed: string): string {
+  return createHash('sha1')
+    .update(`${headingKey(section)}\n${existing.trim()}\n${proposed.trim()}`)
+    .digest('hex')
+    .slice(0, 8);
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ').trim();
+}
+
+function formatConflicts(conflicts: SkillConflict[]): string[] {
   const lines: string[] = [];
+  for (const conflict of conflicts) {
+    lines.push(`### ${conflict.section} <!-- conflict:${conflict.id} -->`);
+    lines.push(`- **Existing**: ${singleLine(conflict.existing)}`);
+    lines.push(`- **Proposed**: ${singleLine(conflict.proposed)}`);
+    if (conflict.evidence) {
+      lines.push(`- **Evidence**: ${singleLine(conflict.evidence)}`);
+    }
+    lines.push('');
+  }
+  return lines;
+}
 
-  let createdAt = new Date().toISOString();
-  const lastUpdated = new Date().toISOString();
+function parseConflicts(content: string): SkillConflict[] {
+  const conflicts: SkillConflict[] = [];
+  for (const chunk of content.split(/^### /m).slice(1)) {
+    const header = chunk.match(/^(.*?)\s*<!--\s*conflict:([a-z0-9]+)\s*-->/);
+    if (!header) continue;
+
+    const field = (label: string) => chunk.match(new RegExp(`^- \\*\\*${label}\\*\\*:\\s*(.*)$`, 'm'))?.[1].trim();
+    const existing = field('Existing');
+    const proposed = field('Proposed');
+    if (!existing || !proposed) continue;
+
+    const evidence = field('Evidence');
+    conflicts.push({
+      id: header[2],
+      section: header[1].trim(),
+      existing,
+      proposed,
+      ...(evidence && { evidence }),
+    });
+  }
+  return conflicts;
+}
 
-  if (existingContent) {
-    const createdMatch = existingContent.match(/created_at:\s*([^\s]+)/);
-    if (createdMatch) {
-      createdAt = createdMatch[1];
+/**
+ * Parse a module skill file written by formatSkillContent back into SkillContent.
+ */
+export function parseModuleSkill(content: string): SkillContent {
+  const { data, body } = readFrontmatter(content);
+  const name = frontmatterString(data, 'name');
+  const description = frontmatterString(data, 'description');
+
+  const sections: SkillSection[] = [];
+  let relatedFiles: string[] = [];
+  let conflicts: SkillConflict[] = [];
+
+  for (const chunk of body.split(/^## /m).slice(1)) {
+    const newline = chunk.indexOf('\n');
+    const heading = (newline === -1 ? chunk : chunk.slice(0, newline)).trim();
+    const sectionContent = newline === -1 ? '' : chunk.slice(newline + 1).trim();
+
+    if (heading === RELATED_FILES_HEADING) {
+      relatedFiles = parseRelatedFiles(sectionContent);
+      continue;
+    }
+
+    if (heading === CONFLICTS_HEADING) {
+      conflicts = parseConflicts(sectionContent);
+      continue;
+    }
+
+    const pinned = PINNED_MARKER_PATTERN.test(heading) || PINNED_MARKER_PATTERN.test(sectionContent.split('\n')[0]);
+    if (pinned) {
+      sections.push({
+        heading: heading.replace(PINNED_MARKER_PATTERN, '').trim(),
+        content: sectionContent,
+        pinned: true,
+        raw: `## ${chunk}`.trimEnd(),
+      });
+      continue;
+    }
+
+    const badge = sectionContent.match(SECTION_BADGE_PATTERN);
+    if (badge && isSectionKind(badge[1])) {
+      sections.push({
+        heading,
+        content: sectionContent.slice(badge[0].length).trim(),
+        kind: badge[1],
+        ...(isSectionSeverity(badge[2]) && { severity: badge[2] }),
+      });
+      continue;
     }
+
+    sections.push({ heading, content: sectionContent });
+  }
+
+  return {
+    metadata: { name, description },
+    sections,
+    relatedFiles,
+    ...(conflicts.length > 0 && { conflicts }),
+  };
+}
+
+function orderSections(
+  sections: SkillSection[],
+  format: SkillFormatOptions,
+  existingContent?: string
+): SkillSection[] {
+  const order = format.sectionOrder ?? 'existing';
+  const ordered = [...sections];
+
+  if (order === 'alphabetical') {
+    ordered.sort((a, b) => headingKey(a.heading).localeCompare(headingKey(b.heading)));
+  } else if (order === 'existing' && existingContent) {
+    const existingOrder = parseModuleSkill(existingContent).sections.map(s => headingKey(s.heading));
+    const rank = (s: SkillSection) => {
+      const index = existingOrder.indexOf(headingKey(s.heading));
+      return index === -1 ? existingOrder.length : index;
+    };
+    // Array.prototype.sort is stable, so new sections keep their relative model order
+    ordered.sort((a, b) => rank(a) - rank(b));
+  }
+
+  const pinned = (format.headingOrder ?? []).map(headingKey);
+  if (pinned.length > 0) {
+    const pinRank = (s: SkillSection) => {
+      const index = pinned.indexOf(headingKey(s.heading));
+      return index === -1 ? pinned.length : index;
+    };
+    ordered.sort((a, b) => pinRank(a) - pinRank(b));
   }
 
-  lines.push('---');
-  lines.push(`name: ${skill.metadata.name}`);
-  lines.push(`description: ${skill.metadata.description}`);
-  lines.push('usage:');
-  lines.push(`  created_at: ${createdAt}`);
-  lines.push(`  last_updated: ${lastUpdated}`);
-  lines.push('---');
-  lines.push('');
+  return ordered;
+}
+
+function addCodeLanguage(content: string, language: string): string {
+  let inFence = false;
+  return content
+    .split('\n')
+    .map(line => {
+      const fence = line.match(/^(\s*)```(.*)$/);
+      if (!fence) return line;
+      if (inFence) {
+        inFence = false;
+        return line;
+      }
+      inFence = true;
+      return fence[2].trim() ? line : `${fence[1]}\`\`\`${language}`;
+    })
+    .join('\n');
+}
+
+function truncateContent(content: string, maxLength: number): string {
+  if (content.length <= maxLength) return content;
+
+  // Prefer cutting at a line break, then at a word break, when either keeps most of the content
+  let cut = content.slice(0, maxLength);
+  const lastNewline = cut.lastIndexOf('\n');
+  const lastSpace = cut.lastIndexOf(' ');
+  if (lastNewline > maxLength / 2) {
+    cut = cut.slice(0, lastNewline);
+  } else if (lastSpace > maxLength / 2) {
+    cut = cut.slice(0, lastSpace);
+  }
+  // Don't leave a code fence open
+  if ((cut.match(/^\s*```/gm)?.length ?? 0) % 2 === 1) {
+    cut += '\n```';
+  }
+  return `${cut.trimEnd()}\n${TRUNCATED_MARKER}`;
+}
+
+function toAnchor(heading: string, used: Map<string, number>): string {
+  const base = heading
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+  const count = used.get(base) ?? 0;
+  used.set(base, count + 1);
+  return count === 0 ? base : `${base}-${count}`;
+}
+
+function renderBody(skill: SkillContent, sections: SkillSection[], format: SkillFormatOptions): string {
+  const lines: string[] = [];
+
+  if (format.tableOfContents && sections.length > 0) {
+    const used = new Map<string, number>();
+    lines.push(TOC_LABEL);
+    lines.push('');
+    for (const section of sections) {
+      lines.push(`- [${section.heading}](#${toAnchor(section.heading, used)})`);
+    }
+    lines.push('');
+  }
 
-  for (const section of skill.sections) {
+  for (const section of sections) {
+    if (section.pinned && section.raw) {
+      lines.push(section.raw);
+      lines.push('');
+      continue;
+    }
     lines.push(`## ${section.heading}`);
     lines.push('');
+    const badge = formatSectionBadge(section);
+    if (badge) {
+      lines.push(badge);
+      lines.push('');
+    }
     lines.push(section.content);
     lines.push('');
   }
 
+  if (skill.conflicts && skill.conflicts.length > 0) {
+    lines.push(`## ${CONFLICTS_HEADING}`);
+    lines.push('');
+    lines.push(...formatConflicts(skill.conflicts));
+  }
+
   if (skill.relatedFiles && skill.relatedFiles.length > 0) {
-    lines.push('## Related files');
+    lines.push(`## ${RELATED_FILES_HEADING}`);
     lines.push('');
-    for (const file of skill.relatedFiles) {
-      lines.push(`- \`${file}\``);
+    if (format.relatedFilesStyle === 'table') {
+      lines.push('| File |');
+      lines.push('|------|');
+      for (const file of skill.relatedFiles) {
+        lines.push(`| \`${file}\` |`);
+      }
+    } else {
+      for (const file of skill.relatedFiles) {
+        lines.push(`- \`${file}\``);
+      }
     }
     lines.push('');
   }
 
-  return lines.join('\n').trim() + '\n';
+  return lines.join('\n').trim();
 }
 
-export async function updateGlobalIndex(
-  projectRoot: string,
-  entry: IndexEntry
-): Promise<void> {
-  const rootDir = await getProjectRootDir(projectRoot);
-  const knowledgeDir = join(rootDir, '.knowledge');
-  const indexPath = join(knowledgeDir, 'KNOWLEDGE.md');
-  const lockFile = join(rootDir, '.knowledge.lock');
-
-  await mkdir(knowledgeDir, { recursive: true });
-
-  const lock = await acquireLock(lockFile, 5000);
-
-  try {
-    let content = '';
-    if (await fileExists(indexPath)) {
-      content = await readTextFile(indexPath);
+/**
+ * Render a module skill file. Rendering is deterministic: when the rendered knowledge
+ * matches the existing file, the existing content (and its timestamps) is returned as is.
+ */
+export function formatSkillContent(
+  skill: SkillContent,
+  existingContent?: string,
+  format: SkillFormatOptions = {}
+): string {
+  let sections = orderSections(skill.sections, format, existingContent).map(section => {
+    if (section.pinned) return section;
+    let content = section.content;
+    if (format.codeLanguage) {
+      content = addCodeLanguage(content, format.codeLanguage);
     }
-
-    if (!content.includes('# Project Knowledge')) {
-      content = `# Project Knowledge
-
-> Project knowledge index. Read this first to understand available domain knowledge, then read relevant module SKILLs as needed.
-
-`;
+    if (format.maxSectionLength) {
+      content = truncateContent(content, format.maxSectionLength);
     }
-
-    const entryMarker = `### ${entry.name}`;
-    if (content.includes(entryMarker)) {
-      const entryRegex = new RegExp(
-        `### ${escapeRegex(entry.name)}[\\s\\S]*?(?=\\n### |$)`,
-        'g'
-      );
-      content = content.replace(entryRegex, formatIndexEntry(entry));
+    return { ...section, content };
+  });
+
+  const tags = Object.keys(countSectionKinds(skill.sections));
+  const existingData = existingContent ? readFrontmatter(existingContent).data : {};
+  const existingUsage = frontmatterMapping(existingData, 'usage');
+
+  // Keys written by hand or by usage tracking keep their values and position
+  const frontmatter = (createdAt: string, lastUpdated: string): Frontmatter => {
+    const data: Frontmatter = { ...existingData };
+    data.name = skill.metadata.name;
+    data.description = skill.metadata.description;
+    if (tags.length > 0) {
+      data.tags = tags;
     } else {
-      content = content.trimEnd() + '\n\n' + formatIndexEntry(entry);
+      delete data.tags;
+    }
+    data.usage = { ...existingUsage, created_at: createdAt, last_updated: lastUpdated };
+    return data;
+  };
+
+  let body = renderBody(skill, sections, format);
+  if (format.maxFileLength) {
+    const frontmatterLength = formatFrontmatter(frontmatter(new Date().toISOString(), new Date().toISOString()), '').length + 1;
+    while (frontmatterLength + body.length + 1 > format.maxFileLength) {
+      // Pinned sections are never dropped
+      const index = sections.map(section => !section.pinned).lastIndexOf(true);
+      if (index === -1) break;
+      console.log(`[smart-codebase] Dropping section "${sections[index].heading}" from ${skill.metadata.name}: skill file exceeds ${format.maxFileLength} characters`);
+      sections = sections.filter((_, i) => i !== index);
+      body = renderBody(skill, sections, format);
     }
+  }
 
-    await writeTextFile(indexPath, content);
-  } finally {
-    await releaseLock(lock);
+  if (existingContent) {
+    const existingTags = Array.isArray(existingData.tags) ? existingData.tags : [];
+    if (
+      stripFrontmatter(existingContent).trim() === body &&
+      frontmatterString(existingData, 'name') === skill.metadata.name &&
+      frontmatterString(existingData, 'description') === skill.metadata.description &&
+      existingTags.join(', ') === tags.join(', ')
+    ) {
+      return existingContent;
+    }
   }
+
+  const now = new Date().toISOString();
+  const createdAt = frontmatterString(existingUsage, 'created_at') || now;
+
+  return formatFrontmatter(frontmatter(createdAt, now), `\n${body}`).trim() + '\n';
 }
 
 function formatIndexEntry(entry: IndexEntry): string {
+  const kinds = Object.entries(entry.kinds ?? {})
+    .map(([kind, count]) => `${count} ${kind}`)
+    .join(', ');
+  const kindsLine = kinds ? `- **Kinds**: ${kinds}\n` : '';
+
   return `### ${entry.name}
 ${entry.description}
 - **Location**: \`${entry.location}\`
-`;
+${kindsLine}`;
 }
 
 export function toSkillName(modulePath: string): string {
@@ -197,19 +687,46 @@ function sanitizeSkillName(name: string): string {
     .slice(0, 64) || 'project';
 }
 
+/**
+ * An index entry: its whole `### name` heading line (so `src-a` doesn't match `src-api`)
+ * up to the next entry or the end of the index.
+ */
+export function indexEntryPattern(name: string, flags: string = ''): RegExp {
+  return new RegExp(`^### ${escapeRegex(name)}[ \\t]*$[\\s\\S]*?(?=\\n### |(?![\\s\\S]))`, `m${flags}`);
+}
+
+async function getSkillIndexPath(projectRoot: string): Promise<string> {
+  return join(await getProjectSkillDir(projectRoot), 'SKILL.md');
+}
+
+function createSkillIndex(projectRoot: string, skillName: string): string {
+  return formatFrontmatter({
+    name: `${skillName}-conventions`,
+    description: `Development conventions and patterns for ${basename(projectRoot)} project`,
+  }, `
+# Project Knowledge
+
+> Project knowledge index. Read this first to understand available domain knowledge, then read relevant module SKILLs as needed.
+
+`);
+}
+
+/**
+ * Add or replace an entry of the project skill index.
+ * @returns The entry's previous text, or null if the entry is new
+ */
 export async function updateSkillIndex(
   projectRoot: string,
   entry: IndexEntry
-): Promise<void> {
-  const rootDir = await getProjectRootDir(projectRoot);
+): Promise<string | null> {
   const skillName = await getProjectSkillName(projectRoot);
-  const skillDir = join(rootDir, '.opencode', 'skills', skillName);
-  const skillPath = join(skillDir, 'SKILL.md');
+  const skillPath = await getSkillIndexPath(projectRoot);
+  const skillDir = dirname(skillPath);
   const lockFile = join(skillDir, '.lock');
 
   await mkdir(skillDir, { recursive: true });
 
-  const lock = await acquireLock(lockFile, 5000);
+  const lock = await acquireLock(lockFile);
 
   try {
     let content = '';
@@ -218,57 +735,131 @@ export async function updateSkillIndex(
     }
 
     if (!content.startsWith('---')) {
-      content = `---
-name: ${skillName}-conventions
-description: Development conventions and patterns for ${basename(projectRoot)} project
----
+      content = createSkillIndex(projectRoot, skillName);
+    }
 
-# Project Knowledge
+    let previous: string | null = null;
+    if (indexEntryPattern(entry.name).test(content)) {
+      previous = content.match(indexEntryPattern(entry.name))?.[0] ?? null;
+      content = content.replace(indexEntryPattern(entry.name, 'g'), () => formatIndexEntry(entry));
+    } else {
+      content = content.trimEnd() + '\n\n' + formatIndexEntry(entry);
+    }
 
-> Project knowledge index. Read this first to understand available domain knowledge, then read relevant module SKILLs as needed.
+    await writeTextFileAtomic(skillPath, content);
+    return previous;
+  } finally {
+    await releaseLock(lock);
+  }
+}
 
-`;
-    }
+/**
+ * Put back an index entry's text as returned by updateSkillIndex, or remove the entry
+ * when `previous` is null.
+ * @returns false if the index doesn't exist or already had that text
+ */
+export async function restoreSkillIndexEntry(
+  projectRoot: string,
+  name: string,
+  previous: string | null
+): Promise<boolean> {
+  const skillPath = await getSkillIndexPath(projectRoot);
+  if (!(await fileExists(skillPath))) {
+    return false;
+  }
+
+  const lock = await acquireLock(join(dirname(skillPath), '.lock'));
 
-    const entryMarker = `### ${entry.name}`;
-    if (content.includes(entryMarker)) {
-      const entryRegex = new RegExp(
-        `### ${escapeRegex(entry.name)}[\\s\\S]*?(?=\\n### |$)`,
-        'g'
-      );
-      content = content.replace(entryRegex, formatIndexEntry(entry));
+  try {
+    const content = await readTextFile(skillPath);
+    const hasEntry = indexEntryPattern(name).test(content);
+    let updated: string;
+
+    if (previous === null) {
+      if (!hasEntry) return false;
+      updated = content.replace(new RegExp(`\\n*${indexEntryPattern(name).source}`, 'm'), '').trimEnd() + '\n';
+    } else if (hasEntry) {
+      updated = content.replace(indexEntryPattern(name), () => previous);
     } else {
-      content = content.trimEnd() + '\n\n' + formatIndexEntry(entry);
+      updated = content.trimEnd() + '\n\n' + previous;
     }
 
-    await writeTextFile(skillPath, content);
+    if (updated === content) return false;
+    await writeTextFileAtomic(skillPath, updated);
+    return true;
   } finally {
     await releaseLock(lock);
   }
 }
 
-// Directories that should not be treated as modules
-const EXCLUDED_DIRS = [
-  // Version control
-  '.git', '.svn', '.hg',
-  // Dependencies
-  'node_modules', 'bower_components', 'jspm_packages', 'vendor',
-  // Build outputs
-  'dist', 'build', 'out', 'output', '.output',
-  // Framework build directories
-  '.next', '.nuxt', '.vuepress', '.docusaurus', '.svelte-kit',
-  // Test coverage
-  'coverage', '.nyc_output',
-  // IDE/Editor config
-  '.vscode', '.idea', '.eclipse', '.settings',
-  // Git hooks
-  '.husky',
-  // Temporary/cache
-  'tmp', 'temp', '.cache', '.parcel-cache', '.turbo',
-  // Package manager
-  '.pnpm', '.yarn', '.npm',
-];
+/**
+ * Regenerate the module entries of the project skill index from the files in modules/.
+ * Entries that don't point into modules/ (root-level knowledge) are kept as they are.
+ */
+export async function rebuildSkillIndex(projectRoot: string): Promise<{ modules: number; kept: number; dropped: string[] }> {
+  const skillName = await getProjectSkillName(projectRoot);
+  const skillDir = await getProjectSkillDir(projectRoot);
+  const skillPath = join(skillDir, 'SKILL.md');
+  const modulesDir = join(skillDir, 'modules');
+
+  const entries: IndexEntry[] = [];
+  if (await fileExists(modulesDir)) {
+    for (const file of (await findFiles('*.md', { cwd: modulesDir, absolute: false })).sort()) {
+      try {
+        const skill = parseModuleSkill(await readTextFile(join(modulesDir, file)));
+        const name = skill.metadata.name || file.replace(/\.md$/, '');
+        entries.push({
+          name,
+          description: skill.metadata.description || `Handles ${name} module.`,
+          location: `modules/${file}`,
+          kinds: countSectionKinds(skill.sections),
+        });
+      } catch (error) {
+        console.warn(`[smart-codebase] Failed to parse ${join(modulesDir, file)}:`, error);
+      }
+    }
+  }
+
+  await mkdir(skillDir, { recursive: true });
+  const lock = await acquireLock(join(skillDir, '.lock'));
+
+  try {
+    let content = (await fileExists(skillPath)) ? await readTextFile(skillPath) : '';
+    if (!content.startsWith('---')) {
+      content = createSkillIndex(projectRoot, skillName);
+    }
+
+    const firstEntry = content.search(/^### /m);
+    const head = firstEntry === -1 ? content : content.slice(0, firstEntry);
+    const blocks = firstEntry === -1 ? [] : content.slice(firstEntry).split(/\n(?=### )/);
+
+    const kept: string[] = [];
+    const dropped: string[] = [];
+    for (const block of blocks) {
+      const location = block.match(/^- \*\*Location\*\*: `([^`]*)`/m)?.[1] ?? '';
+      if (!location.startsWith('modules/')) {
+        kept.push(block);
+        continue;
+      }
+      const name = block.slice(4, block.indexOf('\n') === -1 ? undefined : block.indexOf('\n')).trim();
+      if (!entries.some(e => e.name === name)) {
+        dropped.push(name);
+      }
+    }
+
+    const body = [...kept, ...entries.map(formatIndexEntry)].map(block => block.trimEnd()).join('\n\n');
+    await writeTextFileAtomic(skillPath, `${head.trimEnd()}\n${body ? `\n${body}\n` : ''}`);
 
+    return { modules: entries.length, kept: kept.length, dropped };
+  } finally {
+    await releaseLock(lock);
+  }
+}
+
+/**
+ * Module owning a file: its first two directory levels below the project root, or '.'
+ * for files at the root. Ignored paths (see utils/ignore) are filtered out before this.
+ */
 export function getModulePath(filePath: string, projectRoot: string): string {
   const absolutePath = isAbsolute(filePath) 
     ? filePath 
@@ -278,10 +869,6 @@ export function getModulePath(filePath: string, projectRoot: string): string {
   const parts = relativePath.split(/[/\\]/).filter(p => p && p !== '.');
 
   if (parts.length === 0) return '.';
-  
-  if (parts.length >= 1 && EXCLUDED_DIRS.includes(parts[0])) {
-    return '.';
-  }
 
   if (parts.length === 1) return parts[0];
 
@@ -291,39 +878,3 @@ export function getModulePath(filePath: string, projectRoot: string): string {
 function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
-
-async function acquireLock(lockFile: string, timeoutMs: number): Promise<{ file: string }> {
-  const startTime = Date.now();
-  const dir = dirname(lockFile);
-
-  await mkdir(dir, { recursive: true });
-
-  while (true) {
-    try {
-      if (await fileExists(lockFile)) {
-        throw { code: 'EEXIST' };
-      }
-      await writeTextFile(lockFile, process.pid.toString());
-      return { file: lockFile };
-    } catch (error: any) {
-      if (error.code === 'EEXIST') {
-        if (Date.now() - startTime > timeoutMs) {
-          throw new Error(`Failed to acquire lock on ${lockFile} within ${timeoutMs}ms`);
-        }
-        await sleep(50);
-        continue;
-      }
-      throw error;
-    }
-  }
-}
-
-async function releaseLock(lock: { file: string }): Promise<void> {
-  try {
-    if (await fileExists(lock.file)) {
-      await removeFile(lock.file);
-    }
-  } catch (error) {
-    console.error(`Failed to release lock ${lock.file}:`, error);
-  }
-}
@@ -0,0 +1,174 @@
+import { rmdir } from 'fs/promises';
+import { dirname, join } from 'path';
+import { fileExists, findFiles, readTextFile, removeFile } from '../utils/fs-compat';
+import { getProjectRootDir } from '../utils/git';
+import { stripFrontmatter } from '../utils/frontmatter';
+import type { IgnoreMatcher } from '../utils/ignore';
+import type { SkillFormatOptions } from '../types';
+import {
+  getModuleSkillPath,
+  mergeModuleSkill,
+  parseModuleSkill,
+  rebuildSkillIndex,
+  toSkillName,
+  type SkillContent,
+} from './knowledge-writer';
+
+/**
+ * Older versions kept one `<module>/.knowledge/SKILL.md` per module next to the code and a
+ * `.knowledge/KNOWLEDGE.md` index at the root. sc-migrate moves them into the
+ * `.opencode/skills/<project>` layout.
+ */
+
+const LEGACY_SKILL_PATTERN = '**/.knowledge/SKILL.md';
+const LEGACY_DIR = '.knowledge';
+
+export interface LegacySkillFile {
+  /** Path relative to the project root, e.g. src/auth/.knowledge/SKILL.md */
+  path: string;
+  /** Module the file belongs to, '.' for the root. */
+  modulePath: string;
+}
+
+export interface MigrationResult {
+  migrated: Array<LegacySkillFile & {
+    skill: string;
+    /** Section headings the module skill didn't have yet. */
+    added: string[];
+    /** True when the module skill already existed, from extraction or an earlier legacy file. */
+    merged: boolean;
+  }>;
+  failed: Array<LegacySkillFile & { error: string }>;
+  /** Legacy files removed (only with deleteLegacy). */
+  deleted: string[];
+  /** True when deleteLegacy left the old root index in place because some files failed. */
+  legacyIndexKept: boolean;
+  index: Awaited<ReturnType<typeof rebuildSkillIndex>>;
+}
+
+export interface MigrateOptions {
+  /** Remove migrated legacy files, their empty .knowledge directories and the old root index. */
+  deleteLegacy?: boolean;
+  isIgnored?: IgnoreMatcher;
+  format?: SkillFormatOptions;
+}
+
+/**
+ * Legacy module skill files in the project, skipping ignored modules.
+ */
+export async function findLegacySkills(projectRoot: string, isIgnored?: IgnoreMatcher): Promise<LegacySkillFile[]> {
+  const rootDir = await getProjectRootDir(projectRoot);
+  const files = await findFiles(LEGACY_SKILL_PATTERN, { cwd: rootDir, absolute: false });
+
+  return files
+    .sort()
+    .map(path => ({ path, modulePath: dirname(dirname(path)) }))
+    .filter(file => !isIgnored?.(join(rootDir, file.modulePath)));
+}
+
+/**
+ * A legacy file as a module skill. Text before the first `##` section (other than the
+ * `#` title) becomes an Overview section, since module skills only keep sections.
+ */
+function parseLegacySkill(content: string, modulePath: string): SkillContent {
+  const skill = parseModuleSkill(content);
+  const name = skill.metadata.name || toSkillName(modulePath);
+
+  const preamble = stripFrontmatter(content)
+    .split(/^## /m)[0]
+    .replace(/^# .*$/m, '')
+    .trim();
+  const hasOverview = skill.sections.some(s => s.heading.trim().toLowerCase() === 'overview');
+  const sections = preamble && !hasOverview
+    ? [{ heading: 'Overview', content: preamble }, ...skill.sections]
+    : skill.sections;
+
+  return {
+    ...skill,
+    metadata: { name, description: skill.metadata.description || `Handles ${name} module.` },
+    sections,
+  };
+}
+
+async function migrateFile(
+  projectRoot: string,
+  rootDir: string,
+  file: LegacySkillFile,
+  format?: SkillFormatOptions
+): Promise<MigrationResult['migrated'][number]> {
+  const legacy = parseLegacySkill(await readTextFile(join(rootDir, file.path)), file.modulePath);
+
+  // The module skill wins over the legacy file; only sections it lacks are added
+  const skillPath = await getModuleSkillPath(projectRoot, file.modulePath);
+  const current = (await fileExists(skillPath)) ? parseModuleSkill(await readTextFile(skillPath)) : null;
+  const currentHeadings = new Set(current?.sections.map(s => s.heading.trim().toLowerCase()));
+
+  const written = await mergeModuleSkill(projectRoot, file.modulePath, {
+    metadata: current?.metadata.name ? current.metadata : legacy.metadata,
+    sections: legacy.sections.filter(s => !currentHeadings.has(s.heading.trim().toLowerCase())),
+    relatedFiles: legacy.relatedFiles,
+    conflicts: legacy.conflicts,
+  }, { format, revision: { source: 'sc-migrate' } });
+
+  return {
+    ...file,
+    skill: toSkillName(file.modulePath),
+    added: written.changes.added,
+    merged: current !== null,
+  };
+}
+
+async function removeLegacyFile(rootDir: string, relativePath: string): Promise<void> {
+  const fullPath = join(rootDir, relativePath);
+  await removeFile(fullPath);
+  // Only succeeds when the directory is empty, which is the point
+  await rmdir(dirname(fullPath)).catch(() => {});
+}
+
+/**
+ * Move every legacy module skill into the module skill of the same module, merging
+ * duplicates by section heading, then regenerate the project index.
+ */
+export async function migrateLegacySkills(projectRoot: string, options: MigrateOptions = {}): Promise<MigrationResult> {
+  const rootDir = await getProjectRootDir(projectRoot);
+  const result: MigrationResult = {
+    migrated: [],
+    failed: [],
+    deleted: [],
+    legacyIndexKept: false,
+    index: { modules: 0, kept: 0, dropped: [] },
+  };
+
+  for (const file of await findLegacySkills(projectRoot, options.isIgnored)) {
+    try {
+      result.migrated.push(await migrateFile(projectRoot, rootDir, file, options.format));
+    } catch (error) {
+      console.error(`[smart-codebase] Failed to migrate ${file.path}:`, error);
+      result.failed.push({ ...file, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  result.index = await rebuildSkillIndex(projectRoot);
+
+  if (options.deleteLegacy) {
+    for (const file of result.migrated) {
+      await removeLegacyFile(rootDir, file.path);
+      result.deleted.push(file.path);
+    }
+
+    // Files that failed are only reachable through the old layout, so keep its index
+    const legacyIndex = join(LEGACY_DIR, 'KNOWLEDGE.md');
+    if (result.failed.length > 0) {
+      result.legacyIndexKept = await fileExists(join(rootDir, legacyIndex));
+    } else {
+      if (await fileExists(join(rootDir, legacyIndex))) {
+        await removeLegacyFile(rootDir, legacyIndex);
+        result.deleted.push(legacyIndex);
+      }
+      await removeFile(join(rootDir, `${LEGACY_DIR}.lock`));
+    }
+  }
+
+  console.log(`[smart-codebase] Migrated ${result.migrated.length} legacy skill files (${result.failed.length} failed, ${result.deleted.length} removed)`);
+  return result;
+}
@@ -0,0 +1,255 @@
+import { mkdir } from 'fs/promises';
+import { join } from 'path';
+import { fileExists, findFiles, readTextFile, writeTextFileAtomic, removeFile } from '../utils/fs-compat';
+import { getProjectRootDir } from '../utils/git';
+import { formatDiff } from '../utils/diff';
+import { stripFrontmatter } from '../utils/frontmatter';
+import { acquireLock, releaseLock } from '../utils/lock';
+import type { SkillFormatOptions } from '../types';
+import {
+  formatSkillContent,
+  getModuleSkillPath,
+  getProjectSkillName,
+  countSectionKinds,
+  mergeModuleSkill,
+  mergeSkillContent,
+  parseModuleSkill,
+  toSkillName,
+  updateSkillIndex,
+  type IndexEntry,
+  type SkillContent,
+  type SkillSection,
+} from './knowledge-writer';
+
+/**
+ * A skill produced by extraction while review mode is on, waiting for sc-accept / sc-reject.
+ */
+export interface PendingSkill {
+  modulePath: string;
+  skill: SkillContent;
+  /** Existing section headings the extraction asked to delete. */
+  removedSections?: string[];
+  indexEntry: IndexEntry;
+  sessionID: string;
+  /** Extraction model as configured, if any; kept for the skill history. */
+  model?: string;
+  createdAt: string;
+}
+
+export interface ReviewOutcome {
+  /** Section headings applied or discarded. */
+  sections: string[];
+  /** True when nothing is left pending for the skill. */
+  resolved: boolean;
+}
+
+async function getPendingDir(projectRoot: string): Promise<string> {
+  const rootDir = await getProjectRootDir(projectRoot);
+  const projectName = await getProjectSkillName(projectRoot);
+  return join(rootDir, '.opencode', 'skills', projectName, 'pending');
+}
+
+async function getPendingPath(projectRoot: string, skillName: string): Promise<string> {
+  return join(await getPendingDir(projectRoot), `${skillName}.json`);
+}
+
+/** Pending files are keyed by the module skill file name (e.g. src-auth). */
+export function getPendingKey(modulePath: string): string {
+  return toSkillName(modulePath);
+}
+
+/**
+ * Stage a skill for review. When the module already has a pending skill that nobody reviewed
+ * yet, the new proposal is merged into it by section: newer sections replace older ones with
+ * the same heading, all others stay pending.
+ */
+export async function stagePendingSkill(projectRoot: string, pending: PendingSkill): Promise<string> {
+  const pendingDir = await getPendingDir(projectRoot);
+  await mkdir(pendingDir, { recursive: true });
+
+  const pendingPath = join(pendingDir, `${getPendingKey(pending.modulePath)}.json`);
+  const lock = await acquireLock(join(pendingDir, '.lock'));
+
+  try {
+    let staged = pending;
+    if (await fileExists(pendingPath)) {
+      const previous = JSON.parse(await readTextFile(pendingPath)) as PendingSkill;
+      const proposed = new Set(pending.skill.sections.map(s => s.heading.trim().toLowerCase()));
+      const removedSections = Array.from(new Set([...(previous.removedSections ?? []), ...(pending.removedSections ?? [])]))
+        .filter(h => !proposed.has(h.trim().toLowerCase()));
+      staged = {
+        ...pending,
+        skill: mergeSkillContent(previous.skill, pending.skill).skill,
+        removedSections,
+      };
+    }
+
+    await writeTextFileAtomic(pendingPath, JSON.stringify(staged, null, 2) + '\n');
+    return pendingPath;
+  } finally {
+    await releaseLock(lock);
+  }
+}
+
+export async function listPendingSkills(projectRoot: string): Promise<Array<{ key: string; pending: PendingSkill }>> {
+  const pendingDir = await getPendingDir(projectRoot);
+  if (!(await fileExists(pendingDir))) {
+    return [];
+  }
+
+  const files = await findFiles('*.json', { cwd: pendingDir, absolute: false });
+  const result: Array<{ key: string; pending: PendingSkill }> = [];
+
+  for (const file of files.sort()) {
+    try {
+      const pending = JSON.parse(await readTextFile(join(pendingDir, file))) as PendingSkill;
+      result.push({ key: file.replace(/\.json$/, ''), pending });
+    } catch (error) {
+      console.error(`[smart-codebase] Failed to read pending skill ${file}:`, error);
+    }
+  }
+
+  return result;
+}
+
+export async function readPendingSkill(projectRoot: string, key: string): Promise<PendingSkill | null> {
+  const pendingPath = await getPendingPath(projectRoot, key);
+  if (!(await fileExists(pendingPath))) {
+    return null;
+  }
+  return JSON.parse(await readTextFile(pendingPath)) as PendingSkill;
+}
+
+async function readCurrentModuleSkill(projectRoot: string, modulePath: string): Promise<string> {
+  const skillPath = await getModuleSkillPath(projectRoot, modulePath);
+  return (await fileExists(skillPath)) ? readTextFile(skillPath) : '';
+}
+
+/**
+ * Readable diff between the current module file and what accepting the pending skill would write.
+ * Frontmatter timestamps are left out so only knowledge changes show up.
+ */
+export async function formatPendingDiff(
+  projectRoot: string,
+  pending: PendingSkill,
+  format?: SkillFormatOptions
+): Promise<string> {
+  const current = await readCurrentModuleSkill(projectRoot, pending.modulePath);
+  const merged = mergeSkillContent(
+    current ? parseModuleSkill(current) : null,
+    pending.skill,
+    pending.removedSections
+  );
+  const proposed = formatSkillContent(merged.skill, current, format);
+
+  const before = current
+    ? `description: ${parseModuleSkill(current).metadata.description}\n${stripFrontmatter(current)}`
+    : '';
+  const after = `description: ${pending.skill.metadata.description}\n${stripFrontmatter(proposed)}`;
+
+  return formatDiff(before, after) || '(no changes)';
+}
+
+function isSelected(heading: string, headings?: string[]): boolean {
+  if (!headings || headings.length === 0) return true;
+  return headings.some(h => h.trim().toLowerCase() === heading.trim().toLowerCase());
+}
+
+async function savePendingRemainder(
+  projectRoot: string,
+  key: string,
+  pending: PendingSkill,
+  remaining: SkillSection[],
+  remainingRemovals: string[]
+): Promise<boolean> {
+  const pendingPath = await getPendingPath(projectRoot, key);
+  if (remaining.length === 0 && remainingRemovals.length === 0) {
+    await removeFile(pendingPath);
+    return true;
+  }
+  const remainder: PendingSkill = {
+    ...pending,
+    skill: { ...pending.skill, sections: remaining },
+    removedSections: remainingRemovals,
+  };
+  await writeTextFileAtomic(pendingPath, JSON.stringify(remainder, null, 2) + '\n');
+  return false;
+}
+
+/**
+ * Split a pending skill into the sections/removals picked by `headings` (all when omitted)
+ * and the ones left over.
+ */
+function selectPending(pending: PendingSkill, key: string, headings?: string[]) {
+  const selected = pending.skill.sections.filter(s => isSelected(s.heading, headings));
+  const selectedRemovals = (pending.removedSections ?? []).filter(h => isSelected(h, headings));
+
+  if (selected.length === 0 && selectedRemovals.length === 0 && headings && headings.length > 0) {
+    throw new Error(`None of the sections [${headings.join(', ')}] are pending for "${key}"`);
+  }
+
+  return {
+    selected,
+    selectedRemovals,
+    remaining: pending.skill.sections.filter(s => !selected.includes(s)),
+    remainingRemovals: (pending.removedSections ?? []).filter(h => !selectedRemovals.includes(h)),
+    headings: [...selected.map(s => s.heading), ...selectedRemovals],
+  };
+}
+
+/**
+ * Apply a pending skill, or only the given sections of it, by merging into the current
+ * module file. Sections the extraction did not mention are kept.
+ */
+export async function acceptPendingSkill(
+  projectRoot: string,
+  key: string,
+  headings?: string[],
+  format?: SkillFormatOptions
+): Promise<ReviewOutcome> {
+  const pending = await readPendingSkill(projectRoot, key);
+  if (!pending) {
+    throw new Error(`No pending skill named "${key}"`);
+  }
+
+  const selection = selectPending(pending, key, headings);
+
+  const written = await mergeModuleSkill(
+    projectRoot,
+    pending.modulePath,
+    { ...pending.skill, sections: selection.selected },
+    {
+      format,
+      removedSections: selection.selectedRemovals,
+      revision: { source: 'sc-accept', sessionID: pending.sessionID, model: pending.model },
+    }
+  );
+  await updateSkillIndex(projectRoot, { ...pending.indexEntry, kinds: countSectionKinds(written.skill.sections) });
+
+  const resolved = await savePendingRemainder(
+    projectRoot, key, pending, selection.remaining, selection.remainingRemovals
+  );
+
+  return { sections: selection.headings, resolved };
+}
+
+/**
+ * Discard a pending skill, or only the given sections of it.
+ */
+export async function rejectPendingSkill(
+  projectRoot: string,
+  key: string,
+  headings?: string[]
+): Promise<ReviewOutcome> {
+  const pending = await readPendingSkill(projectRoot, key);
+  if (!pending) {
+    throw new Error(`No pending skill named "${key}"`);
+  }
+
+  const selection = selectPending(pending, key, headings);
+  const resolved = await savePendingRemainder(
+    projectRoot, key, pending, selection.remaining, selection.remainingRemovals
+  );
+
+  return { sections: selection.headings, resolved };
+}
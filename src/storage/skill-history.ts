@@ -0,0 +1,256 @@
+import { mkdir, readdir, readFile } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import { fileExists, readTextFile, removeFile, writeTextFileAtomic } from '../utils/fs-compat';
+import { getProjectRootDir } from '../utils/git';
+import { formatDiff } from '../utils/diff';
+import { formatFrontmatter, frontmatterMapping, readFrontmatter } from '../utils/frontmatter';
+import { acquireLock, releaseLock } from '../utils/lock';
+import { ensureStateDir } from './state-dir';
+import {
+  countSectionKinds,
+  getProjectSkillName,
+  parseModuleSkill,
+  toSkillName,
+  updateSkillIndex,
+  type SkillContent,
+} from './knowledge-writer';
+
+/**
+ * Revision history of module skills, kept in the gitignored state directory:
+ *
+ *   .opencode/skills/<project>/.smart-codebase/history/<skill>/000012.json
+ *
+ * Every write of a module file records the new content as a revision, together with what
+ * made the write. Content that changed outside the plugin (hand edits, git checkouts) is
+ * recorded first, so no version the plugin overwrites is lost. Only the newest
+ * `historyLimit` revisions per skill are kept.
+ */
+
+export const DEFAULT_HISTORY_LIMIT = 20;
+
+export interface RevisionSource {
+  /** What made the write: extraction, sc-accept, sc-conflicts, sc-restore, ... */
+  source: string;
+  sessionID?: string;
+  /** Extraction model as configured ("providerID/modelID"); absent for the default model. */
+  model?: string;
+}
+
+export interface SkillRevision extends RevisionSource {
+  revision: number;
+  createdAt: string;
+  /** Section headings changed compared to the previous revision. */
+  changes: { added: string[]; updated: string[]; removed: string[] };
+  content: string;
+}
+
+let historyLimit = DEFAULT_HISTORY_LIMIT;
+
+/**
+ * Set how many revisions are kept per skill (the `historyLimit` config key). 0 disables history.
+ */
+export function setHistoryLimit(limit: number | undefined): void {
+  historyLimit = limit !== undefined && limit >= 0 ? Math.floor(limit) : DEFAULT_HISTORY_LIMIT;
+}
+
+function revisionFileName(revision: number): string {
+  return `${String(revision).padStart(6, '0')}.json`;
+}
+
+async function getHistoryDir(skillPath: string): Promise<string> {
+  // skillPath is .opencode/skills/<project>/modules/<skill>.md
+  const stateDir = await ensureStateDir(dirname(dirname(skillPath)));
+  return join(stateDir, 'history', basename(skillPath, '.md'));
+}
+
+async function getModuleSkillFile(projectRoot: string, skill: string): Promise<string> {
+  const rootDir = await getProjectRootDir(projectRoot);
+  const projectName = await getProjectSkillName(projectRoot);
+  return join(rootDir, '.opencode', 'skills', projectName, 'modules', `${toSkillName(skill)}.md`);
+}
+
+async function readRevisions(historyDir: string): Promise<SkillRevision[]> {
+  if (!(await fileExists(historyDir))) {
+    return [];
+  }
+
+  const revisions: SkillRevision[] = [];
+  for (const file of (await readdir(historyDir)).filter(f => /^\d+\.json$/.test(f)).sort()) {
+    try {
+      revisions.push(JSON.parse(await readFile(join(historyDir, file), 'utf-8')) as SkillRevision);
+    } catch (error) {
+      console.error(`[smart-codebase] Skipping unreadable revision ${join(historyDir, file)}:`, error);
+    }
+  }
+  return revisions;
+}
+
+/**
+ * Skill content without its usage block (write timestamps, access statistics), which
+ * changes without the knowledge changing.
+ */
+export function withoutUsage(content: string): string {
+  const { data, body, hasFrontmatter } = readFrontmatter(content);
+  if (!hasFrontmatter || !('usage' in data)) return content;
+  const { usage: _usage, ...rest } = data;
+  return formatFrontmatter(rest, body);
+}
+
+/** Usage keys written by the usage tracker rather than by skill writes. */
+const ACCESS_KEYS = ['access_count', 'last_accessed'];
+
+/** `content` with the access statistics of `current`, so a restore doesn't reset them. */
+export function withUsageOf(content: string, current: string): string {
+  const currentUsage = current ? frontmatterMapping(readFrontmatter(current).data, 'usage') : {};
+  const access = Object.fromEntries(Object.entries(currentUsage).filter(([key]) => ACCESS_KEYS.includes(key)));
+  const { data, body, hasFrontmatter } = readFrontmatter(content);
+  if (!hasFrontmatter || Object.keys(access).length === 0) return content;
+  return formatFrontmatter({ ...data, usage: { ...frontmatterMapping(data, 'usage'), ...access } }, body);
+}
+
+function parseOrNull(content: string): SkillContent | null {
+  if (!content) return null;
+  try {
+    return parseModuleSkill(content);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Section headings added, updated and removed between two versions of a skill file.
+ */
+export function diffSkillSections(before: string, after: string): SkillRevision['changes'] {
+  const key = (heading: string) => heading.trim().toLowerCase();
+  const beforeSections = new Map((parseOrNull(before)?.sections ?? []).map(s => [key(s.heading), s]));
+  const afterSections = parseOrNull(after)?.sections ?? [];
+  const changes: SkillRevision['changes'] = { added: [], updated: [], removed: [] };
+
+  for (const section of afterSections) {
+    const previous = beforeSections.get(key(section.heading));
+    if (!previous) {
+      changes.added.push(section.heading);
+    } else if (
+      previous.content.trim() !== section.content.trim() ||
+      previous.kind !== section.kind ||
+      previous.severity !== section.severity
+    ) {
+      changes.updated.push(section.heading);
+    }
+    beforeSections.delete(key(section.heading));
+  }
+  changes.removed = Array.from(beforeSections.values()).map(s => s.heading);
+
+  return changes;
+}
+
+/**
+ * Record a write of `skillPath` from `previousContent` to `content`. Call while holding the
+ * module lock. History is best-effort: failures are logged and never fail the write.
+ */
+export async function recordRevision(
+  skillPath: string,
+  previousContent: string,
+  content: string,
+  source: RevisionSource
+): Promise<void> {
+  if (historyLimit === 0 || content === previousContent) {
+    return;
+  }
+
+  try {
+    const historyDir = await getHistoryDir(skillPath);
+    const revisions = await readRevisions(historyDir);
+    let last = revisions[revisions.length - 1];
+
+    await mkdir(historyDir, { recursive: true });
+
+    const append = async (from: RevisionSource, before: string, after: string) => {
+      const next: SkillRevision = {
+        revision: (last?.revision ?? 0) + 1,
+        createdAt: new Date().toISOString(),
+        source: from.source,
+        ...(from.sessionID && { sessionID: from.sessionID }),
+        ...(from.model && { model: from.model }),
+        changes: diffSkillSections(before, after),
+        content: after,
+      };
+      await writeTextFileAtomic(join(historyDir, revisionFileName(next.revision)), JSON.stringify(next, null, 2) + '\n');
+      revisions.push(next);
+      last = next;
+    };
+
+    if (previousContent && (!last || withoutUsage(previousContent) !== withoutUsage(last.content))) {
+      await append({ source: last ? 'manual edit' : 'baseline' }, last?.content ?? '', previousContent);
+    }
+    await append(source, previousContent, content);
+
+    for (const old of revisions.slice(0, Math.max(0, revisions.length - historyLimit))) {
+      await removeFile(join(historyDir, revisionFileName(old.revision)));
+    }
+  } catch (error) {
+    console.error(`[smart-codebase] Failed to record history for ${skillPath}:`, error);
+  }
+}
+
+/**
+ * Revisions of a module skill, oldest first.
+ * @param skill - Skill name (e.g. src-auth) or module path (e.g. src/auth)
+ */
+export async function listRevisions(projectRoot: string, skill: string): Promise<SkillRevision[]> {
+  const skillPath = await getModuleSkillFile(projectRoot, skill);
+  return readRevisions(await getHistoryDir(skillPath));
+}
+
+/**
+ * Put the content of an earlier revision back into the module file and its index entry.
+ * The restore itself is recorded as a new revision, so it can be undone the same way.
+ */
+export async function restoreRevision(
+  projectRoot: string,
+  skill: string,
+  revision: number
+): Promise<{ restored: SkillRevision; changed: boolean; changes: SkillRevision['changes'] }> {
+  const skillPath = await getModuleSkillFile(projectRoot, skill);
+  const restored = (await listRevisions(projectRoot, skill)).find(r => r.revision === revision);
+  if (!restored) {
+    throw new Error(`No revision ${revision} of ${toSkillName(skill)}; list revisions with sc-history`);
+  }
+
+  const lock = await acquireLock(join(dirname(skillPath), '.lock'));
+  let changes: SkillRevision['changes'];
+  let changed = false;
+  try {
+    const current = (await fileExists(skillPath)) ? await readTextFile(skillPath) : '';
+    const content = withUsageOf(restored.content, current);
+    changes = diffSkillSections(current, content);
+    if (current !== content) {
+      changed = true;
+      await writeTextFileAtomic(skillPath, content);
+      await recordRevision(skillPath, current, content, { source: `sc-restore r${revision}` });
+    }
+  } finally {
+    await releaseLock(lock);
+  }
+
+  const parsed = parseModuleSkill(restored.content);
+  await updateSkillIndex(projectRoot, {
+    name: parsed.metadata.name,
+    description: parsed.metadata.description,
+    location: `modules/${basename(skillPath)}`,
+    kinds: countSectionKinds(parsed.sections),
+  });
+
+  return { restored, changed, changes };
+}
+
+/**
+ * Diff of a revision against the one before it, without usage statistics, cut to `maxLines`.
+ */
+export function formatRevisionDiff(previous: SkillRevision | undefined, revision: SkillRevision, maxLines: number = 12): string {
+  const lines = formatDiff(withoutUsage(previous?.content ?? ''), withoutUsage(revision.content), 1).split('\n');
+  if (lines.length <= maxLines) {
+    return lines.join('\n');
+  }
+  return [...lines.slice(0, maxLines), `  ... ${lines.length - maxLines} more lines`].join('\n');
+}
@@ -0,0 +1,34 @@
+import { mkdir } from 'fs/promises';
+import { join } from 'path';
+import { fileExists, writeTextFile } from '../utils/fs-compat';
+import { getProjectRootDir } from '../utils/git';
+import { getProjectSkillName } from './knowledge-writer';
+
+const STATE_DIR_NAME = '.smart-codebase';
+
+/**
+ * Machine-local plugin state (journals, caches) lives next to the project skill
+ * in a directory that ignores itself, so it never ends up in a commit.
+ */
+export async function getStateDir(projectRoot: string): Promise<string> {
+  const rootDir = await getProjectRootDir(projectRoot);
+  const projectName = await getProjectSkillName(projectRoot);
+  return ensureStateDir(join(rootDir, '.opencode', 'skills', projectName));
+}
+
+/**
+ * State directory of a project skill directory (`.opencode/skills/<project>`), for
+ * callers that only know a skill file's location.
+ */
+export async function ensureStateDir(projectSkillDir: string): Promise<string> {
+  const stateDir = join(projectSkillDir, STATE_DIR_NAME);
+
+  await mkdir(stateDir, { recursive: true });
+
+  const gitignorePath = join(stateDir, '.gitignore');
+  if (!(await fileExists(gitignorePath))) {
+    await writeTextFile(gitignorePath, '*\n');
+  }
+
+  return stateDir;
+}
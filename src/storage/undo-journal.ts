@@ -0,0 +1,143 @@
+import { mkdir } from 'fs/promises';
+import { dirname, join } from 'path';
+import { fileExists, readTextFile, removeFile, writeTextFileAtomic } from '../utils/fs-compat';
+import { acquireLock, releaseLock } from '../utils/lock';
+import { getStateDir } from './state-dir';
+import { getModuleSkillPath, restoreSkillIndexEntry } from './knowledge-writer';
+import { recordRevision, withoutUsage, withUsageOf } from './skill-history';
+
+/**
+ * Undo journal of extraction runs, one file per session in the state directory
+ * (`.smart-codebase/undo/<sessionID>.json`). Each run records the module files and index
+ * entries it wrote with their previous contents, so sc-undo can put them back.
+ */
+
+/** Runs kept per session; sc-undo can step back this many extractions. */
+const MAX_RUNS_PER_SESSION = 5;
+
+export interface UndoModuleChange {
+  modulePath: string;
+  /** Module file content before and after the run ('' = no file). Absent when the run left it unchanged. */
+  file?: { previousContent: string; content: string };
+  /** Index entry name and its previous text (null = created by the run). */
+  indexEntry: { name: string; previous: string | null };
+}
+
+export interface UndoRun {
+  createdAt: string;
+  modules: UndoModuleChange[];
+}
+
+export interface UndoResult {
+  run: UndoRun;
+  /** Module paths whose files were put back. */
+  reverted: string[];
+  /** Module paths whose files the run had created and were deleted. */
+  deleted: string[];
+  /** Module paths left alone because their file changed after the run. */
+  skipped: string[];
+  /** Index entries put back / removed. */
+  indexRestored: string[];
+  indexRemoved: string[];
+}
+
+async function getUndoPath(projectRoot: string, sessionID: string): Promise<string> {
+  const undoDir = join(await getStateDir(projectRoot), 'undo');
+  await mkdir(undoDir, { recursive: true });
+  return join(undoDir, `${sessionID.replace(/[^\w-]/g, '_')}.json`);
+}
+
+async function readRuns(undoPath: string): Promise<UndoRun[]> {
+  if (!(await fileExists(undoPath))) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(await readTextFile(undoPath));
+    return Array.isArray(parsed.runs) ? parsed.runs : [];
+  } catch (error) {
+    console.error(`[smart-codebase] Failed to read undo journal ${undoPath}:`, error);
+    return [];
+  }
+}
+
+async function writeRuns(undoPath: string, runs: UndoRun[]): Promise<void> {
+  if (runs.length === 0) {
+    await removeFile(undoPath);
+    return;
+  }
+  await writeTextFileAtomic(undoPath, JSON.stringify({ runs }, null, 2) + '\n');
+}
+
+/**
+ * Remember what an extraction run of `sessionID` wrote.
+ */
+export async function recordExtractionRun(projectRoot: string, sessionID: string, run: UndoRun): Promise<void> {
+  if (run.modules.length === 0) return;
+
+  const undoPath = await getUndoPath(projectRoot, sessionID);
+  const runs = [...(await readRuns(undoPath)), run].slice(-MAX_RUNS_PER_SESSION);
+  await writeRuns(undoPath, runs);
+}
+
+async function revertModuleFile(
+  skillPath: string,
+  file: NonNullable<UndoModuleChange['file']>,
+  sessionID: string
+): Promise<'reverted' | 'deleted' | 'skipped'> {
+  const lock = await acquireLock(join(dirname(skillPath), '.lock'));
+
+  try {
+    const current = (await fileExists(skillPath)) ? await readTextFile(skillPath) : '';
+    if (withoutUsage(current) !== withoutUsage(file.content)) {
+      return 'skipped';
+    }
+
+    if (!file.previousContent) {
+      await removeFile(skillPath);
+      return 'deleted';
+    }
+
+    const content = withUsageOf(file.previousContent, current);
+    await writeTextFileAtomic(skillPath, content);
+    await recordRevision(skillPath, current, content, { source: 'sc-undo', sessionID });
+    return 'reverted';
+  } finally {
+    await releaseLock(lock);
+  }
+}
+
+/**
+ * Revert the most recent extraction run of `sessionID`. Module files changed since the run
+ * (by a later extraction or by hand) are left alone, together with their index entries.
+ */
+export async function undoLastExtraction(projectRoot: string, sessionID: string): Promise<UndoResult> {
+  const undoPath = await getUndoPath(projectRoot, sessionID);
+  const runs = await readRuns(undoPath);
+  const run = runs.pop();
+  if (!run) {
+    throw new Error('No extraction to undo in this session');
+  }
+
+  const result: UndoResult = { run, reverted: [], deleted: [], skipped: [], indexRestored: [], indexRemoved: [] };
+
+  for (const change of [...run.modules].reverse()) {
+    if (change.file) {
+      const skillPath = await getModuleSkillPath(projectRoot, change.modulePath);
+      const outcome = await revertModuleFile(skillPath, change.file, sessionID);
+      if (outcome === 'skipped') {
+        result.skipped.push(change.modulePath);
+        continue;
+      }
+      result[outcome].push(change.modulePath);
+    }
+
+    const { name, previous } = change.indexEntry;
+    if (await restoreSkillIndexEntry(projectRoot, name, previous)) {
+      (previous === null ? result.indexRemoved : result.indexRestored).push(name);
+    }
+  }
+
+  await writeRuns(undoPath, runs);
+  console.log(`[smart-codebase] Undid extraction of ${run.createdAt} for session ${sessionID}`);
+  return result;
+}
@@ -11,6 +11,55 @@ export interface CleanupThresholds {
   maxInactiveDays: number;
 }
 
+export interface RedactionConfig {
+  /** Default: true */
+  enabled?: boolean;
+  /** Extra regular expressions (JavaScript syntax) whose matches are redacted. */
+  patterns?: string[];
+  /**
+   * Gitignore-style globs for files whose content must never reach the model or skill files.
+   * Added to the defaults (`.env*`, `*.pem`, `*.key`, `id_rsa*`), not replacing them.
+   */
+  denyPaths?: string[];
+}
+
+export interface SkillFormatOptions {
+  /**
+   * "existing" keeps headings already in the file where they are and appends new ones,
+   * "alphabetical" sorts by heading, "model" keeps the extraction order. Default: "existing"
+   */
+  sectionOrder?: 'existing' | 'alphabetical' | 'model';
+  /** Headings (case-insensitive) always rendered first, in this order. */
+  headingOrder?: string[];
+  /** Max characters per section content; longer content is truncated. */
+  maxSectionLength?: number;
+  /** Max characters per skill file; trailing sections that don't fit are dropped. */
+  maxFileLength?: number;
+  /** Render a table of contents above the sections. Default: false */
+  tableOfContents?: boolean;
+  /** Language added to code fences that don't declare one, e.g. "ts". */
+  codeLanguage?: string;
+  /** Render related files as a bullet list or a table. Default: "list" */
+  relatedFilesStyle?: 'list' | 'table';
+}
+
+export interface PromptProfile {
+  /** What the extraction should capture, replacing the default EXTRACT/SKIP guidance. */
+  focus?: string;
+  /** Domain terms (term -> meaning) the model should recognise and use consistently. */
+  vocabulary?: Record<string, string>;
+  /** Writing style for descriptions and section content, e.g. "terse bullet points". */
+  tone?: string;
+  /** Max sections per skill. Enforced by output validation. */
+  maxSections?: number;
+  /** Max characters per section content. Enforced by output validation. */
+  maxSectionLength?: number;
+  /** Project-relative file whose contents are added to the prompt as extra instructions. */
+  promptFile?: string;
+  /** Gitignore-style globs; the profile applies to modules whose touched files match. */
+  modules?: string[];
+}
+
 export interface PluginConfig {
   enabled: boolean;
   debounceMs?: number;
@@ -19,37 +68,168 @@ export interface PluginConfig {
   disabledCommands?: string[];
   /**
    * Max token budget for the extraction context preprocessor (conversation + diff + evidence).
-   * Approx tokens are estimated as chars/4. Default: 8000
+   * Tokens are estimated per piece of text (see utils/tokens.ts): CJK 1 per character, ASCII
+   * words 1 per 4 letters, digits 1 per 3, punctuation and symbols 1 each, other letters 1 per
+   * 2, whitespace mostly free. Default: 8000
    */
   extractionMaxTokens?: number;
+  /**
+   * Summarize conversations that exceed extractionMaxTokens in windows with the extraction
+   * model, then extract skills from the summaries, instead of truncating them. Default: true
+   */
+  chunkedExtraction?: boolean;
+  /**
+   * Per-section share of extractionMaxTokens. Values up to 1 are ratios, larger values are
+   * absolute token counts. Budget a section leaves unused goes to the others.
+   */
+  extractionBudgets?: ExtractionBudgets;
+  /**
+   * Gitignore-style rules added after `.opencode/smart-codebase-ignore`. Ignored paths are
+   * not tracked, extracted or listed in skills; `!pattern` re-includes a path.
+   */
+  ignore?: string[];
   /**
    * Model to use for knowledge extraction. Format: "providerID/modelID"
    * Example: "minimax/MiniMax-M2.1", "openai/gpt-4o"
    * If not specified, uses OpenCode's default model.
    */
   extractionModel?: string;
+  /**
+   * Max prompts per extraction, including follow-ups that ask the model to fix
+   * validation errors in its previous reply. Default: 3
+   */
+  extractionMaxAttempts?: number;
+  /**
+   * Stage extracted skills under .opencode/skills/<project>/pending/ instead of writing them.
+   * Skills only reach the module files through sc-accept. Default: false
+   */
+  reviewMode?: boolean;
+  /**
+   * Secret/PII redaction applied to the extraction prompt and to skills before they are written.
+   */
+  redaction?: RedactionConfig;
+  /**
+   * Named extraction prompt profiles. Usually set in the project's .opencode/smart-codebase.jsonc.
+   */
+  promptProfiles?: Record<string, PromptProfile>;
+  /**
+   * Profile used for modules that no profile's `modules` globs match.
+   */
+  promptProfile?: string;
+  /**
+   * Rendering options for module skill files.
+   */
+  skillFormat?: SkillFormatOptions;
   cleanupThresholds?: CleanupThresholds;
+  /**
+   * Skill and index locks older than this are taken over, even if their holder may still
+   * be running. Locks of crashed processes on this host are taken over right away. Default: 30000
+   */
+  lockStaleMs?: number;
+  /**
+   * Earlier versions kept per module skill in `.smart-codebase/history/`, for sc-history and
+   * sc-restore. 0 disables history. Default: 20
+   */
+  historyLimit?: number;
 }
 
+/** What a tool call did: changed files, looked at them, searched, or ran a command. */
+export type ToolOperation = 'read' | 'write' | 'search' | 'exec' | 'other';
+
 export interface ToolCallRecord {
   tool: string;
+  /** Output title reported by the tool (a path, a command description, ...). */
   target?: string;
+  operation?: ToolOperation;
+  /** Project-relative path of the file read, written or searched. */
+  filePath?: string;
+  /** Shell command for exec tools. */
+  command?: string;
+  /** Search pattern for grep/glob-style tools. */
+  pattern?: string;
+  /** Line range of a partial read (1-based, inclusive). */
+  startLine?: number;
+  endLine?: number;
+  exitCode?: number;
+  /** Error lines from the output of a failed command. */
+  errorExcerpt?: string;
+  durationMs?: number;
   timestamp: number;
 }
 
 export interface KnowledgeStats {
-  hasGlobalIndex: boolean;
+  /** The project skill index (.opencode/skills/<project>/SKILL.md) exists. */
+  hasIndex: boolean;
   moduleCount: number;
+  /** Module skill names (file names under modules/). */
   modules: string[];
+  /** Legacy <module>/.knowledge/SKILL.md files still waiting for sc-migrate. */
+  legacyCount: number;
+}
+
+export interface ExtractionWatermark {
+  /** Number of session messages already covered by a previous extraction. */
+  messageIndex: number;
+  /** Git tree snapshot of the working state at the previous extraction; later diffs start here. */
+  diffBaseline?: string;
+  /** HEAD commit at the previous extraction; later commit listings start here. */
+  head?: string;
+}
+
+export interface ExtractionBudgets {
+  conversation?: number;
+  debuggingArcs?: number;
+  diff?: number;
+  toolCalls?: number;
+  snippets?: number;
+}
+
+export type BudgetSection = keyof ExtractionBudgets;
+
+/** How much of one extraction context section was kept. */
+export interface SectionBudgetUsage {
+  section: BudgetSection;
+  /** Estimated tokens before budgeting. */
+  tokens: number;
+  /** Tokens the section's own budget allows. */
+  budget: number;
+  /** Estimated tokens kept, including budget borrowed from other sections. */
+  kept: number;
+}
+
+/** Repository state when a session started; its diffs exclude work that predates the session. */
+export interface SessionBaseline {
+  /** HEAD commit at session start, used to list in-session commits. */
+  head?: string;
+  /** Git tree snapshot of the working state (tracked and untracked files) at session start. */
+  tree?: string;
+  createdAt: number;
 }
 
 export interface PreprocessedSummary {
   /** Full transcript: user + assistant turns (text parts only). */
   conversation: string;
+  /** Files changed by write tools in the session. */
   modifiedFiles: string;
+  /** Files that were only read, never changed. */
+  filesRead: string;
+  /** Shell commands run, with exit status. */
+  commandsRun: string;
+  /** Commands that failed and passed again after edits, as "problem → fix" evidence. */
+  debuggingArcs: string;
   gitDiff: string;
   toolCallsSummary: string;
   codeSnippets: string;
   totalTokens: number;
   truncated: boolean;
+  /** Per-section breakdown of what the token budget kept and dropped. */
+  budget: SectionBudgetUsage[];
+  /** True when the conversation was summarized window by window because it exceeded the budget. */
+  chunked: boolean;
+  /** Watermark to record once this summary has been extracted successfully. */
+  watermark: ExtractionWatermark;
+  /** True when conversation and diff only cover changes since a previous extraction. */
+  incremental: boolean;
+  /** Number of secrets/PII items redacted from the summary. */
+  redactions: number;
 }
@@ -0,0 +1,85 @@
+/**
+ * Minimal line diff for showing skill changes to humans.
+ * Not meant for patching - output is a readable unified-style listing.
+ */
+
+export type DiffOp = { type: 'same' | 'add' | 'remove'; line: string };
+
+/**
+ * Compute a line-level diff using the longest common subsequence.
+ * @param before - Original text
+ * @param after - Updated text
+ * @returns Ordered list of operations
+ */
+export function diffLines(before: string, after: string): DiffOp[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+  const n = a.length;
+  const m = b.length;
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'same', line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'remove', line: a[i++] });
+    } else {
+      ops.push({ type: 'add', line: b[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: 'remove', line: a[i++] });
+  while (j < m) ops.push({ type: 'add', line: b[j++] });
+
+  return ops;
+}
+
+/**
+ * Render a diff with `+`/`-` prefixes, collapsing unchanged runs to `context` lines around changes.
+ * @returns Formatted diff, or an empty string when nothing changed
+ */
+export function formatDiff(before: string, after: string, context: number = 2): string {
+  const ops = diffLines(before, after);
+  if (!ops.some(op => op.type !== 'same')) {
+    return '';
+  }
+
+  const keep = new Array<boolean>(ops.length).fill(false);
+  ops.forEach((op, index) => {
+    if (op.type === 'same') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(ops.length - 1, index + context); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const lines: string[] = [];
+  let skipped = false;
+  ops.forEach((op, index) => {
+    if (!keep[index]) {
+      skipped = true;
+      return;
+    }
+    if (skipped) {
+      lines.push('  ...');
+      skipped = false;
+    }
+    const prefix = op.type === 'add' ? '+ ' : op.type === 'remove' ? '- ' : '  ';
+    lines.push(prefix + op.line);
+  });
+  if (skipped) {
+    lines.push('  ...');
+  }
+
+  return lines.join('\n');
+}
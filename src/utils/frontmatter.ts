@@ -0,0 +1,579 @@
+/**
+ * YAML frontmatter codec for skill files.
+ *
+ * Covers the subset of YAML that frontmatter uses: nested block mappings, block and flow
+ * sequences, plain, single- and double-quoted scalars, literal (`|`) and folded (`>`)
+ * block scalars, numbers, booleans and null. Unknown keys and key order survive a
+ * parse → serialize round trip; comments do not.
+ *
+ * Strings are quoted whenever YAML would otherwise read them as something else (`: `,
+ * a leading `#` or `-`, `true`, `42`, surrounding whitespace, ...), and multi-line
+ * strings are written as literal block scalars.
+ */
+
+export type FrontmatterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | FrontmatterValue[]
+  | { [key: string]: FrontmatterValue };
+
+export type Frontmatter = { [key: string]: FrontmatterValue };
+
+export interface FrontmatterDocument {
+  data: Frontmatter;
+  /** Everything after the closing `---` line. */
+  body: string;
+  /** False when the content has no frontmatter block; `data` is then empty. */
+  hasFrontmatter: boolean;
+}
+
+const FRONTMATTER_BLOCK = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+const INDENT = '  ';
+
+const NUMBER = /^[-+]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][-+]?\d+)?$/;
+// A mapping key (quoted, plain, or plain starting with "-x"), its colon and the inline value
+const KEY_LINE = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\-?:,[\]{}&*!|>%@`][^:]*?|-[^\s:][^:]*?)[ \t]*:(?:[ \t]+(.*))?$/;
+const SEQUENCE_ITEM = /^-(?:[ \t]|$)/;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+interface Line {
+  /** Leading spaces. Tabs are content, as in YAML. */
+  indent: number;
+  /** Line after the indentation, trailing whitespace included. */
+  text: string;
+}
+
+type Parsed<T> = { value: T; next: number };
+
+function isBlank(line: Line): boolean {
+  const text = line.text.trim();
+  return text === '' || text.startsWith('#');
+}
+
+function toLines(raw: string): Line[] {
+  return raw.split(/\r?\n/).map(line => {
+    const indent = line.search(/[^ ]|$/);
+    return { indent, text: line.slice(indent) };
+  });
+}
+
+function nextContentLine(lines: Line[], start: number): number {
+  let i = start;
+  while (i < lines.length && isBlank(lines[i])) i++;
+  return i;
+}
+
+function stripComment(text: string): string {
+  const comment = text.search(/(?:^|[ \t])#/);
+  return (comment === -1 ? text : text.slice(0, comment)).trim();
+}
+
+function unescapeDoubleQuoted(inner: string): string {
+  return inner.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|.)/g, (_match, escape: string) => {
+    switch (escape[0]) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case 'v': return '\v';
+      case '0': return '\0';
+      case 'a': return '\x07';
+      case 'e': return '\x1b';
+      case 'N': return '\u0085';
+      case '_': return '\u00a0';
+      case 'L': return '\u2028';
+      case 'P': return '\u2029';
+      case 'x':
+      case 'u':
+      case 'U':
+        return String.fromCodePoint(parseInt(escape.slice(1), 16));
+      default: return escape;
+    }
+  });
+}
+
+function parsePlainScalar(text: string): FrontmatterValue {
+  if (text === '' || /^(?:~|null|Null|NULL)$/.test(text)) return null;
+  if (/^(?:true|True|TRUE)$/.test(text)) return true;
+  if (/^(?:false|False|FALSE)$/.test(text)) return false;
+  if (NUMBER.test(text)) return Number(text);
+  if (/^[-+]?\.(?:inf|Inf|INF)$/.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+  if (/^\.(?:nan|NaN|NAN)$/.test(text)) return NaN;
+  return text;
+}
+
+/**
+ * Read the quoted scalar at the start of `text`; `rest` is whatever follows it.
+ */
+function readQuoted(text: string): { value: string; rest: string } {
+  if (text[0] === '"') {
+    const match = text.match(/^"((?:[^"\\]|\\.)*)"/);
+    if (!match) throw new Error(`Unterminated double-quoted string: ${text}`);
+    return { value: unescapeDoubleQuoted(match[1]), rest: text.slice(match[0].length) };
+  }
+  const match = text.match(/^'((?:[^']|'')*)'/);
+  if (!match) throw new Error(`Unterminated single-quoted string: ${text}`);
+  return { value: match[1].replace(/''/g, "'"), rest: text.slice(match[0].length) };
+}
+
+function parseKey(raw: string): string {
+  return raw.startsWith('"') || raw.startsWith("'") ? readQuoted(raw).value : raw;
+}
+
+/**
+ * Read the flow collection (`[a, b]` or `{a: 1}`) at the start of `text`.
+ */
+function readFlow(text: string): { value: FrontmatterValue; rest: string } {
+  const isSequence = text[0] === '[';
+  const close = isSequence ? ']' : '}';
+  const items: FrontmatterValue[] = [];
+  const map: Frontmatter = {};
+  let rest = text.slice(1).trimStart();
+
+  while (rest && rest[0] !== close) {
+    let key = '';
+    if (!isSequence) {
+      const keyMatch = rest.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^:,}]+?)\s*:\s*/);
+      if (!keyMatch) throw new Error(`Invalid flow mapping: ${text}`);
+      key = parseKey(keyMatch[1].trim());
+      rest = rest.slice(keyMatch[0].length);
+    }
+
+    let value: FrontmatterValue;
+    if (rest[0] === '"' || rest[0] === "'") {
+      ({ value, rest } = readQuoted(rest));
+    } else if (rest[0] === '[' || rest[0] === '{') {
+      ({ value, rest } = readFlow(rest));
+    } else {
+      const end = rest.search(isSequence ? /[,\]]/ : /[,}]/);
+      if (end === -1) throw new Error(`Unterminated flow collection: ${text}`);
+      value = parsePlainScalar(rest.slice(0, end).trim());
+      rest = rest.slice(end);
+    }
+
+    if (isSequence) items.push(value);
+    else map[key] = value;
+
+    rest = rest.trimStart();
+    if (rest[0] === ',') rest = rest.slice(1).trimStart();
+  }
+
+  if (rest[0] !== close) throw new Error(`Unterminated flow collection: ${text}`);
+  return { value: isSequence ? items : map, rest: rest.slice(1) };
+}
+
+function assertOnlyComment(rest: string, text: string): void {
+  if (stripComment(` ${rest}`)) throw new Error(`Unexpected text after value: ${text}`);
+}
+
+/**
+ * Parse a value written on the same line as its key or sequence dash.
+ */
+function parseInlineValue(text: string): FrontmatterValue {
+  if (text[0] === '"' || text[0] === "'") {
+    const { value, rest } = readQuoted(text);
+    assertOnlyComment(rest, text);
+    return value;
+  }
+  if (text[0] === '[' || text[0] === '{') {
+    const { value, rest } = readFlow(text);
+    assertOnlyComment(rest, text);
+    return value;
+  }
+  return parsePlainScalar(stripComment(text));
+}
+
+/**
+ * YAML line folding: single line breaks between text lines become spaces, breaks next to
+ * blank or more-indented lines are kept.
+ */
+function foldLines(lines: string[]): string {
+  let text = '';
+  let blankLines = 0;
+  let previousMoreIndented = false;
+  let first = true;
+
+  for (const line of lines) {
+    if (line === '') {
+      blankLines++;
+      continue;
+    }
+    const moreIndented = /^[ \t]/.test(line);
+    if (first) {
+      text = '\n'.repeat(blankLines);
+    } else if (moreIndented || previousMoreIndented) {
+      text += '\n'.repeat(blankLines + 1);
+    } else {
+      text += blankLines > 0 ? '\n'.repeat(blankLines) : ' ';
+    }
+    text += line;
+    blankLines = 0;
+    previousMoreIndented = moreIndented;
+    first = false;
+  }
+
+  return text;
+}
+
+/**
+ * Parse a `|` or `>` block scalar whose header line is indented by `parentIndent`.
+ */
+function parseBlockScalar(lines: Line[], start: number, parentIndent: number, header: string): Parsed<string> {
+  const match = stripComment(header).match(/^[|>](?:([1-9])?([-+])?|([-+])([1-9]))$/);
+  if (!match) throw new Error(`Invalid block scalar header: ${header}`);
+  const folded = header[0] === '>';
+  const indicator = match[1] ?? match[4];
+  const chomping = match[2] ?? match[3];
+
+  let end = start;
+  while (end < lines.length && (lines[end].text.trim() === '' || lines[end].indent > parentIndent)) end++;
+  const block = lines.slice(start, end);
+
+  const firstContent = block.find(line => line.text.trim() !== '');
+  const contentIndent = indicator
+    ? parentIndent + parseInt(indicator, 10)
+    : firstContent?.indent ?? parentIndent + 1;
+
+  const contentLines = block.map(line => line.indent >= contentIndent
+    ? ' '.repeat(line.indent - contentIndent) + line.text
+    : '');
+
+  let trailing = 0;
+  while (trailing < contentLines.length && contentLines[contentLines.length - 1 - trailing] === '') trailing++;
+  const kept = contentLines.slice(0, contentLines.length - trailing);
+
+  let value = folded ? foldLines(kept) : kept.join('\n');
+  if (chomping === '+') {
+    value += '\n'.repeat(kept.length > 0 ? trailing + 1 : trailing);
+  } else if (chomping !== '-' && kept.length > 0) {
+    value += '\n';
+  }
+
+  return { value, next: end };
+}
+
+/**
+ * Plain scalars may continue on more-indented lines, joined with spaces.
+ */
+function parsePlainScalarLines(lines: Line[], start: number, parentIndent: number, first: string): Parsed<FrontmatterValue> {
+  const parts = [stripComment(first)];
+  let i = start;
+  while (i < lines.length && !isBlank(lines[i]) && lines[i].indent > parentIndent) {
+    const part = stripComment(lines[i].text);
+    // A "key: value" here is a mis-indented key, not more text
+    if (/:(?:[ \t]|$)/.test(part)) throw new Error(`Unexpected indentation: ${part}`);
+    parts.push(part);
+    i++;
+  }
+  return i === start
+    ? { value: parsePlainScalar(parts[0]), next: start }
+    : { value: parts.join(' '), next: i };
+}
+
+/**
+ * Parse the value of a key or sequence dash on the line before `start`, given the text
+ * after the colon or dash and the indentation of that line.
+ */
+function parseValue(lines: Line[], start: number, parentIndent: number, inline: string | undefined): Parsed<FrontmatterValue> {
+  const text = inline?.trim() ?? '';
+
+  if (text === '' || text.startsWith('#')) {
+    const next = nextContentLine(lines, start);
+    if (next < lines.length) {
+      const line = lines[next];
+      if (line.indent > parentIndent) return parseBlock(lines, next, line.indent);
+      // "key:" followed by a sequence at the key's own indentation
+      if (line.indent === parentIndent && SEQUENCE_ITEM.test(line.text)) {
+        return parseSequence(lines, next, line.indent);
+      }
+    }
+    return { value: null, next: start };
+  }
+
+  if (text[0] === '|' || text[0] === '>') {
+    return parseBlockScalar(lines, start, parentIndent, text);
+  }
+  if (text[0] === '"' || text[0] === "'" || text[0] === '[' || text[0] === '{') {
+    return { value: parseInlineValue(text), next: start };
+  }
+  return parsePlainScalarLines(lines, start, parentIndent, text);
+}
+
+function parseSequence(lines: Line[], start: number, indent: number): Parsed<FrontmatterValue[]> {
+  const items: FrontmatterValue[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    i = nextContentLine(lines, i);
+    if (i >= lines.length) break;
+    const line = lines[i];
+    if (line.indent !== indent || !SEQUENCE_ITEM.test(line.text)) break;
+
+    const afterDash = line.text.slice(1);
+    const offset = afterDash.search(/[^ ]|$/);
+    const itemText = afterDash.slice(offset);
+
+    // "- key: value" and "- - item" start a collection indented past the dash
+    if (KEY_LINE.test(itemText) || SEQUENCE_ITEM.test(itemText)) {
+      const itemIndent = indent + 1 + offset;
+      const shifted = [...lines];
+      shifted[i] = { indent: itemIndent, text: itemText };
+      const parsed = parseBlock(shifted, i, itemIndent);
+      items.push(parsed.value);
+      i = parsed.next;
+      continue;
+    }
+
+    const parsed = parseValue(lines, i + 1, indent, itemText);
+    items.push(parsed.value);
+    i = parsed.next;
+  }
+
+  return { value: items, next: i };
+}
+
+function parseMapping(lines: Line[], start: number, indent: number): Parsed<Frontmatter> {
+  const map: Frontmatter = {};
+  let i = start;
+
+  while (i < lines.length) {
+    i = nextContentLine(lines, i);
+    if (i >= lines.length) break;
+    const line = lines[i];
+    if (line.indent < indent || (line.indent === indent && SEQUENCE_ITEM.test(line.text))) break;
+    if (line.indent > indent) throw new Error(`Unexpected indentation: ${line.text.trim()}`);
+
+    const match = line.text.match(KEY_LINE);
+    if (!match) throw new Error(`Expected "key: value": ${line.text.trim()}`);
+
+    const parsed = parseValue(lines, i + 1, indent, match[2]);
+    map[parseKey(match[1])] = parsed.value;
+    i = parsed.next;
+  }
+
+  return { value: map, next: i };
+}
+
+function parseBlock(lines: Line[], start: number, indent: number): Parsed<FrontmatterValue> {
+  return SEQUENCE_ITEM.test(lines[start].text)
+    ? parseSequence(lines, start, indent)
+    : parseMapping(lines, start, indent);
+}
+
+/**
+ * Parse the YAML between the `---` lines. Throws on malformed input.
+ */
+export function parseFrontmatterBlock(raw: string): Frontmatter {
+  const lines = toLines(raw);
+  const start = nextContentLine(lines, 0);
+  if (start >= lines.length) return {};
+
+  const { value, next } = parseMapping(lines, start, lines[start].indent);
+  const leftover = nextContentLine(lines, next);
+  if (leftover < lines.length) {
+    throw new Error(`Unexpected content in frontmatter: ${lines[leftover].text.trim()}`);
+  }
+  return value;
+}
+
+/**
+ * Split a markdown file into its frontmatter data and body. Throws on malformed frontmatter.
+ */
+export function parseFrontmatter(content: string): FrontmatterDocument {
+  const match = content.match(FRONTMATTER_BLOCK);
+  if (!match) {
+    return { data: {}, body: content, hasFrontmatter: false };
+  }
+  return {
+    data: parseFrontmatterBlock(match[1] ?? ''),
+    body: content.slice(match[0].length),
+    hasFrontmatter: true,
+  };
+}
+
+/**
+ * Body of a markdown file without its frontmatter block.
+ */
+export function stripFrontmatter(content: string): string {
+  const match = content.match(FRONTMATTER_BLOCK);
+  return match ? content.slice(match[0].length) : content;
+}
+
+// ---------------------------------------------------------------------------
+// Serializing
+// ---------------------------------------------------------------------------
+
+const RESERVED_PLAIN = /^(?:~|null|Null|NULL|true|True|TRUE|false|False|FALSE|yes|Yes|YES|no|No|NO|on|On|ON|off|Off|OFF|y|Y|n|N|[-+]?\.(?:inf|Inf|INF)|\.(?:nan|NaN|NAN))$/;
+// Indicator characters that can't start a plain scalar, and "-", "?", ":" followed by a space
+const UNSAFE_PLAIN_START = /^(?:[-?:](?:[ \t]|$)|[,[\]{}#&*!|>'"%@`])/;
+// Characters only a double-quoted string can carry
+const NEEDS_ESCAPE = /[\x00-\x08\x0a-\x1f\x7f\u0085\u2028\u2029\ufeff]/;
+const LONE_SURROGATE = /[\ud800-\udbff](?![\udc00-\udfff])|(?<![\ud800-\udbff])[\udc00-\udfff]/;
+
+function isPlainSafe(value: string, inFlow: boolean): boolean {
+  if (value === '' || value !== value.trim()) return false;
+  if (RESERVED_PLAIN.test(value) || NUMBER.test(value) || /^0[xo]/i.test(value)) return false;
+  if (UNSAFE_PLAIN_START.test(value) || /:(?:[ \t]|$)|[ \t]#/.test(value)) return false;
+  if (NEEDS_ESCAPE.test(value) || LONE_SURROGATE.test(value) || value.includes('\t')) return false;
+  if (inFlow && /[,[\]{}]/.test(value)) return false;
+  return true;
+}
+
+function quoteDouble(value: string): string {
+  let quoted = '"';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    const code = value.charCodeAt(i);
+    if (char === '"') quoted += '\\"';
+    else if (char === '\\') quoted += '\\\\';
+    else if (char === '\n') quoted += '\\n';
+    else if (char === '\t') quoted += '\\t';
+    else if (char === '\r') quoted += '\\r';
+    else if (code >= 0xd800 && code <= 0xdbff && i + 1 < value.length && /[\udc00-\udfff]/.test(value[i + 1])) {
+      // A valid surrogate pair (emoji etc.) is written as is
+      quoted += char + value[++i];
+    } else if (NEEDS_ESCAPE.test(char) || (code >= 0xd800 && code <= 0xdfff)) {
+      quoted += `\\u${code.toString(16).padStart(4, '0')}`;
+    } else {
+      quoted += char;
+    }
+  }
+  return `${quoted}"`;
+}
+
+function formatKey(key: string): string {
+  return isPlainSafe(key, true) && KEY_LINE.exec(`${key}: x`)?.[1] === key ? key : quoteDouble(key);
+}
+
+function formatScalar(value: string | number | boolean | null, inFlow = false): string {
+  if (value === null) return 'null';
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) return '.nan';
+    if (!Number.isFinite(value)) return value > 0 ? '.inf' : '-.inf';
+    return Object.is(value, -0) ? '-0' : String(value);
+  }
+  return isPlainSafe(value, inFlow) ? value : quoteDouble(value);
+}
+
+/**
+ * Multi-line strings become literal block scalars when every line survives one unchanged;
+ * anything else (carriage returns, whitespace-only lines, ...) is double-quoted instead.
+ */
+function canUseBlockScalar(value: string): boolean {
+  if (!value.includes('\n') || !value.trim()) return false;
+  if (/[\x00-\x08\x0b-\x1f\x7f\u0085\u2028\u2029\ufeff]/.test(value) || LONE_SURROGATE.test(value)) return false;
+  return value.replace(/\n+$/, '').split('\n').every(line => line === '' || line.trim() !== '');
+}
+
+function formatBlockScalar(value: string, indent: string): { header: string; lines: string[] } {
+  const trailing = value.match(/\n*$/)![0].length;
+  const chomping = trailing === 0 ? '-' : trailing === 1 ? '' : '+';
+  const content = value.slice(0, value.length - trailing);
+  const firstLine = content.split('\n').find(line => line !== '') ?? '';
+  // Content starting with whitespace needs an explicit indentation indicator
+  const indicator = /^[ \t]/.test(firstLine) ? String(INDENT.length) : '';
+
+  const lines = content.split('\n').map(line => line === '' ? '' : `${indent}${line}`);
+  for (let i = 1; i < trailing; i++) lines.push('');
+  return { header: `|${indicator}${chomping}`, lines };
+}
+
+function isMapping(value: FrontmatterValue): value is Frontmatter {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Render a value as the text after its key or dash plus the lines that follow, indented
+ * by `indent`. `inline` is empty for nested block collections.
+ */
+function formatValue(value: FrontmatterValue, indent: string): { inline: string; lines: string[] } {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return { inline: '[]', lines: [] };
+    const scalars = value.every(item => item === null || typeof item !== 'object');
+    if (scalars) {
+      const flow = `[${value.map(item => formatScalar(item as string | number | boolean | null, true)).join(', ')}]`;
+      if (flow.length <= 80 && !flow.includes('\n')) return { inline: flow, lines: [] };
+    }
+    return { inline: '', lines: formatSequence(value, indent) };
+  }
+  if (isMapping(value)) {
+    if (Object.keys(value).length === 0) return { inline: '{}', lines: [] };
+    return { inline: '', lines: formatMapping(value, indent) };
+  }
+  if (typeof value === 'string' && canUseBlockScalar(value)) {
+    const { header, lines } = formatBlockScalar(value, indent);
+    return { inline: header, lines };
+  }
+  return { inline: formatScalar(value), lines: [] };
+}
+
+function formatSequence(items: FrontmatterValue[], indent: string): string[] {
+  const lines: string[] = [];
+  for (const item of items) {
+    const formatted = formatValue(item, `${indent}${INDENT}`);
+    lines.push(formatted.inline ? `${indent}- ${formatted.inline}` : `${indent}-`, ...formatted.lines);
+  }
+  return lines;
+}
+
+function formatMapping(data: Frontmatter, indent: string): string[] {
+  const lines: string[] = [];
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    const formatted = formatValue(value, `${indent}${INDENT}`);
+    const prefix = `${indent}${formatKey(key)}:`;
+    lines.push(formatted.inline ? `${prefix} ${formatted.inline}` : prefix, ...formatted.lines);
+  }
+  return lines;
+}
+
+/**
+ * Serialize data as the YAML between the `---` lines, in key insertion order.
+ */
+export function stringifyFrontmatterBlock(data: Frontmatter): string {
+  return formatMapping(data, '').join('\n');
+}
+
+/**
+ * Build a markdown file from frontmatter data and a body. The body is appended as is.
+ */
+export function formatFrontmatter(data: Frontmatter, body: string): string {
+  const block = stringifyFrontmatterBlock(data);
+  return `---\n${block ? `${block}\n` : ''}---\n${body}`;
+}
+
+/**
+ * Like parseFrontmatter, but malformed frontmatter yields empty data instead of throwing,
+ * so one hand-broken skill file can't stop a scan or an extraction.
+ */
+export function readFrontmatter(content: string): FrontmatterDocument {
+  try {
+    return parseFrontmatter(content);
+  } catch (error) {
+    console.warn(`[smart-codebase] Ignoring malformed frontmatter: ${error instanceof Error ? error.message : String(error)}`);
+    return { data: {}, body: stripFrontmatter(content), hasFrontmatter: true };
+  }
+}
+
+/**
+ * String value of a frontmatter key; numbers and booleans are converted, anything else is ''.
+ */
+export function frontmatterString(data: Frontmatter, key: string): string {
+  const value = data[key];
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? String(value) : '';
+}
+
+/**
+ * Nested mapping under a frontmatter key, or an empty object when it's missing or not a mapping.
+ */
+export function frontmatterMapping(data: Frontmatter, key: string): Frontmatter {
+  const value = data[key];
+  return isMapping(value) ? value : {};
+}
@@ -3,7 +3,8 @@
  * Provides Bun-like API using Node.js fs/promises and fast-glob
  */
 
-import { access, readFile, writeFile, unlink } from 'fs/promises';
+import { access, readFile, writeFile, unlink, rename } from 'fs/promises';
+import { randomUUID } from 'crypto';
 import fg from 'fast-glob';
 
 /**
@@ -38,6 +39,23 @@ export async function writeTextFile(path: string, content: string): Promise<void
   await writeFile(path, content, 'utf-8');
 }
 
+/**
+ * Write text content to file through a temp file in the same directory and a rename,
+ * so readers see either the old or the new content, never a partial write
+ * @param path - File path to write
+ * @param content - Content to write
+ */
+export async function writeTextFileAtomic(path: string, content: string): Promise<void> {
+  const tempPath = `${path}.${randomUUID()}.tmp`;
+  try {
+    await writeFile(tempPath, content, 'utf-8');
+    await rename(tempPath, path);
+  } catch (error) {
+    await removeFile(tempPath);
+    throw error;
+  }
+}
+
 /**
  * Sleep for specified milliseconds
  * @param ms - Milliseconds to sleep
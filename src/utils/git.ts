@@ -1,8 +1,9 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { dirname, resolve, join, basename, isAbsolute as pathIsAbsolute } from 'path';
-import { readFile, stat } from 'fs/promises';
-import { fileExists } from './fs-compat';
+import { copyFile, readFile, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { fileExists, removeFile } from './fs-compat';
 
 const execAsync = promisify(exec);
 
@@ -112,6 +113,55 @@ export async function getProjectRootDir(dir: string): Promise<string> {
     return gitRoot || dir;
 }
 
+/**
+ * Record the current working tree (tracked changes plus non-ignored untracked files)
+ * as a git tree object, without touching the real index, HEAD or stash.
+ *
+ * The temporary index starts as a copy of the real one, so `git add -A` can trust its
+ * cached file stats and only hashes files that changed since, not the whole repository.
+ *
+ * @param cwd - Directory inside the repository
+ * @returns Tree SHA, or null if not in a git repo
+ */
+export async function snapshotWorkingTree(cwd: string): Promise<string | null> {
+  const indexFile = join(tmpdir(), `sc-index-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+  const env = { ...process.env, GIT_INDEX_FILE: indexFile };
+
+  try {
+    const { stdout: indexPath } = await execAsync('git rev-parse --git-path index', { cwd });
+    const realIndex = resolve(cwd, indexPath.trim());
+    if (await fileExists(realIndex)) {
+      await copyFile(realIndex, indexFile);
+    } else {
+      // No index yet (nothing staged): start from HEAD, if there is one
+      await execAsync('git read-tree HEAD', { cwd, env }).catch(() => {});
+    }
+
+    await execAsync('git add -A', { cwd, env, maxBuffer: 10 * 1024 * 1024 });
+    const { stdout } = await execAsync('git write-tree', { cwd, env });
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  } finally {
+    await removeFile(indexFile);
+  }
+}
+
+/**
+ * Get the SHA of the commit HEAD points to.
+ *
+ * @param cwd - Directory inside the repository
+ * @returns Commit SHA, or null if not in a git repo or there are no commits yet
+ */
+export async function getHeadSha(cwd: string): Promise<string | null> {
+  try {
+    const { stdout } = await execAsync('git rev-parse --verify -q HEAD', { cwd });
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
 function isAbsolute(path: string): boolean {
     return pathIsAbsolute(path) || path.startsWith('/') || /^[a-zA-Z]:/.test(path);
 }
@@ -0,0 +1,75 @@
+/**
+ * Small gitignore-style glob matcher for project-relative paths.
+ *
+ * - `*` matches within a path segment, `**` across segments, `?` a single character
+ * - a pattern without a slash matches at any depth (`.env*` matches `config/.env.local`)
+ * - a leading slash or an inner slash anchors the pattern to the project root
+ * - a trailing slash only matches directories (and therefore everything below them)
+ * - a pattern that matches a directory also matches every path inside it
+ */
+
+function escapeRegexChar(char: string): string {
+  return /[.+^${}()|[\]\\]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Convert a glob pattern to a regular expression matched against a whole relative path.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more directories, a bare "**" matches anything
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegexChar(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function normalizeRelativePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+/**
+ * Test a project-relative path against one gitignore-style pattern.
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  const normalized = normalizeRelativePath(path);
+  if (!normalized) return false;
+
+  let glob = pattern.trim();
+  const directoryOnly = glob.endsWith('/');
+  glob = glob.replace(/\/+$/, '');
+  const anchored = glob.startsWith('/') || glob.includes('/');
+  glob = glob.replace(/^\//, '');
+  if (!glob) return false;
+
+  const regex = globToRegExp(anchored ? glob : `**/${glob}`);
+  const segments = normalized.split('/');
+
+  // Check the path itself and every ancestor directory
+  for (let end = segments.length; end >= 1; end--) {
+    const isDirectory = end < segments.length;
+    if (directoryOnly && !isDirectory) continue;
+    if (regex.test(segments.slice(0, end).join('/'))) {
+      return true;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,104 @@
+import * as fs from "fs";
+import { isAbsolute, join, relative } from "path";
+import { matchesGlob, normalizeRelativePath } from "./glob";
+
+/**
+ * Project ignore rules: paths the plugin never tracks, extracts knowledge about or
+ * lists in skills. Rules use gitignore syntax (see ./glob) and are read from
+ * `.opencode/smart-codebase-ignore` plus the `ignore` config key:
+ *
+ * - blank lines and `#` comments are skipped (`\#` for a literal leading hash)
+ * - `!pattern` re-includes paths matched by an earlier rule
+ * - the last matching rule wins
+ */
+
+export const IGNORE_FILE = join(".opencode", "smart-codebase-ignore");
+
+/**
+ * Generated, vendored and tool directories, ignored unless a rule re-includes them.
+ * Names that are also common source directories (`build`, `output`, `vendor`, ...) only
+ * match at the project root, so `src/build/` stays tracked.
+ */
+export const DEFAULT_IGNORE_PATTERNS = [
+  // Version control
+  '.git/', '.svn/', '.hg/',
+  // Dependencies
+  'node_modules/', 'bower_components/', 'jspm_packages/', '/vendor/',
+  // Build outputs
+  '/dist/', '/build/', '/out/', '/output/', '.output/',
+  // Framework build directories
+  '.next/', '.nuxt/', '.vuepress/', '.docusaurus/', '.svelte-kit/',
+  // Test coverage
+  '/coverage/', '.nyc_output/',
+  // IDE/Editor config
+  '.vscode/', '.idea/', '.eclipse/', '.settings/',
+  // Git hooks
+  '.husky/',
+  // Temporary/cache
+  '/tmp/', '/temp/', '.cache/', '.parcel-cache/', '.turbo/',
+  // Package manager
+  '.pnpm/', '.yarn/', '.npm/',
+];
+
+export type IgnoreMatcher = (filePath: string) => boolean;
+
+/**
+ * Rules from the content of an ignore file, in order.
+ */
+export function parseIgnoreFile(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.replace(/(?<!\\)\s+$/, ''))
+    .filter(line => line.trim() && !line.startsWith('#'))
+    .map(line => line.replace(/^\\#/, '#'));
+}
+
+/**
+ * Build a matcher for paths relative to `projectRoot` (absolute paths are made relative).
+ * Paths outside the project are never ignored.
+ */
+export function createIgnoreMatcher(rules: string[], projectRoot: string): IgnoreMatcher {
+  const compiled = rules.map(rule => rule.startsWith('!')
+    ? { pattern: rule.slice(1), negated: true }
+    : { pattern: rule, negated: false });
+
+  return (filePath: string): boolean => {
+    const relativePath = normalizeRelativePath(isAbsolute(filePath) ? relative(projectRoot, filePath) : filePath);
+    if (!relativePath || relativePath.startsWith('../')) return false;
+
+    let ignored = false;
+    for (const { pattern, negated } of compiled) {
+      if (ignored === negated && matchesGlob(relativePath, pattern)) {
+        ignored = !negated;
+      }
+    }
+    return ignored;
+  };
+}
+
+/**
+ * All ignore rules of a project: the built-in defaults, then the ignore file, then the
+ * `ignore` config key, so later sources can re-include what earlier ones ignore.
+ */
+export function loadIgnoreRules(projectRoot: string, configRules: string[] = []): string[] {
+  const filePath = join(projectRoot, IGNORE_FILE);
+  let fileRules: string[] = [];
+
+  if (fs.existsSync(filePath)) {
+    try {
+      fileRules = parseIgnoreFile(fs.readFileSync(filePath, "utf-8"));
+    } catch (error) {
+      console.error(`[smart-codebase] Failed to read ${filePath}:`, error);
+    }
+  }
+
+  return [...DEFAULT_IGNORE_PATTERNS, ...fileRules, ...configRules];
+}
+
+/**
+ * Matcher for the project's current ignore rules. The file is re-read on every call, so
+ * edits take effect without restarting OpenCode.
+ */
+export function loadIgnoreMatcher(projectRoot: string, configRules?: string[]): IgnoreMatcher {
+  return createIgnoreMatcher(loadIgnoreRules(projectRoot, configRules), projectRoot);
+}
@@ -0,0 +1,207 @@
+/**
+ * Cross-process file locks for skill and index writes.
+ *
+ * A lock is a file created exclusively (`wx`), so only one process can create it. It
+ * records who holds it:
+ *
+ *   {"pid":1234,"host":"laptop","acquiredAt":"2026-01-01T00:00:00.000Z","token":"..."}
+ *
+ * A process that dies while holding a lock would block every later write, so a waiting
+ * process takes a lock over when its holder is no longer running on this host, or when
+ * the lock is older than the stale age (holders on other hosts can't be checked).
+ */
+
+import { randomUUID } from 'crypto';
+import { open, readFile, rename, stat, link, mkdir } from 'fs/promises';
+import { hostname } from 'os';
+import { dirname } from 'path';
+import { removeFile, sleep } from './fs-compat';
+
+export const DEFAULT_LOCK_TIMEOUT_MS = 5000;
+export const DEFAULT_LOCK_STALE_MS = 30000;
+const RETRY_MS = 50;
+
+export interface LockOptions {
+  /** Give up waiting after this long. Default: 5000 */
+  timeoutMs?: number;
+  /** Take over locks older than this, whoever holds them. Default: 30000 */
+  staleMs?: number;
+}
+
+export interface FileLock {
+  file: string;
+  token: string;
+}
+
+interface LockHolder {
+  pid?: number;
+  host?: string;
+  acquiredAt: number;
+  token?: string;
+}
+
+let defaultStaleMs = DEFAULT_LOCK_STALE_MS;
+
+/**
+ * Set the stale age used when a caller doesn't pass one (the `lockStaleMs` config key).
+ */
+export function setLockStaleMs(staleMs: number | undefined): void {
+  defaultStaleMs = staleMs && staleMs > 0 ? staleMs : DEFAULT_LOCK_STALE_MS;
+}
+
+/**
+ * Wait for and take the lock `lockFile`, taking over stale locks.
+ * @throws if the lock is still held by a live process after `timeoutMs`
+ */
+export async function acquireLock(lockFile: string, options: LockOptions = {}): Promise<FileLock> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? defaultStaleMs;
+  const token = randomUUID();
+  const startTime = Date.now();
+
+  await mkdir(dirname(lockFile), { recursive: true });
+
+  while (true) {
+    if (await tryCreateLock(lockFile, token)) {
+      return { file: lockFile, token };
+    }
+
+    const holder = await readHolder(lockFile);
+    if (holder && isStale(holder, staleMs)) {
+      if (await takeOverLock(lockFile, holder)) {
+        console.warn(`[smart-codebase] Took over stale lock ${lockFile} (pid ${holder.pid ?? 'unknown'} on ${holder.host ?? 'unknown host'})`);
+      }
+      continue;
+    }
+
+    if (Date.now() - startTime > timeoutMs) {
+      throw new Error(`Failed to acquire lock on ${lockFile} within ${timeoutMs}ms`);
+    }
+    await sleep(RETRY_MS);
+  }
+}
+
+/**
+ * Release a lock taken with acquireLock. A lock that was taken over in the meantime is left alone.
+ */
+export async function releaseLock(lock: FileLock): Promise<void> {
+  try {
+    const holder = await readHolder(lock.file);
+    if (holder?.token === lock.token) {
+      await removeFile(lock.file);
+    }
+  } catch (error) {
+    console.error(`[smart-codebase] Failed to release lock ${lock.file}:`, error);
+  }
+}
+
+/**
+ * Run `fn` while holding `lockFile`.
+ */
+export async function withLock<T>(lockFile: string, fn: () => Promise<T>, options?: LockOptions): Promise<T> {
+  const lock = await acquireLock(lockFile, options);
+  try {
+    return await fn();
+  } finally {
+    await releaseLock(lock);
+  }
+}
+
+async function tryCreateLock(lockFile: string, token: string): Promise<boolean> {
+  let handle;
+  try {
+    handle = await open(lockFile, 'wx');
+  } catch (error: any) {
+    if (error.code === 'EEXIST') return false;
+    throw error;
+  }
+
+  try {
+    await handle.writeFile(JSON.stringify({
+      pid: process.pid,
+      host: hostname(),
+      acquiredAt: new Date().toISOString(),
+      token,
+    }), 'utf-8');
+  } finally {
+    await handle.close();
+  }
+  return true;
+}
+
+/**
+ * Who holds `lockFile`, or null if it is gone. Locks written by older versions hold only
+ * a PID; a lock whose content can't be read yet (being written) is dated by its mtime.
+ */
+async function readHolder(lockFile: string): Promise<LockHolder | null> {
+  let content: string;
+  let mtimeMs: number;
+  try {
+    [content, mtimeMs] = await Promise.all([
+      readFile(lockFile, 'utf-8'),
+      stat(lockFile).then(s => s.mtimeMs),
+    ]);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+
+  if (/^\d+$/.test(content.trim())) {
+    return { pid: Number(content.trim()), acquiredAt: mtimeMs };
+  }
+
+  try {
+    const parsed = JSON.parse(content);
+    const acquiredAt = Date.parse(parsed.acquiredAt);
+    return {
+      pid: typeof parsed.pid === 'number' ? parsed.pid : undefined,
+      host: typeof parsed.host === 'string' ? parsed.host : undefined,
+      acquiredAt: Number.isNaN(acquiredAt) ? mtimeMs : acquiredAt,
+      token: typeof parsed.token === 'string' ? parsed.token : undefined,
+    };
+  } catch {
+    return { acquiredAt: mtimeMs };
+  }
+}
+
+function isStale(holder: LockHolder, staleMs: number): boolean {
+  if (Date.now() - holder.acquiredAt > staleMs) return true;
+
+  const sameHost = holder.host === undefined || holder.host === hostname();
+  return sameHost && holder.pid !== undefined && !isProcessAlive(holder.pid);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM: the process exists but belongs to another user
+    return error.code === 'EPERM';
+  }
+}
+
+/**
+ * Remove a stale lock. The lock is first renamed to a unique name, which only one of
+ * several waiting processes can do; if what was renamed turns out to be a fresh lock
+ * taken by another process in the meantime, it is put back.
+ */
+async function takeOverLock(lockFile: string, stale: LockHolder): Promise<boolean> {
+  const claimed = `${lockFile}.${randomUUID()}.stale`;
+  try {
+    await rename(lockFile, claimed);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return false;
+    throw error;
+  }
+
+  const claimedHolder = await readHolder(claimed);
+  if (claimedHolder && claimedHolder.token !== stale.token) {
+    await link(claimed, lockFile).catch(() => {});
+    await removeFile(claimed);
+    return false;
+  }
+
+  await removeFile(claimed);
+  return true;
+}
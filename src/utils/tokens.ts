@@ -0,0 +1,54 @@
+/**
+ * Token estimation for prompt budgeting, without a tokenizer.
+ *
+ * BPE tokenizers split text very differently by script: an English word is usually one
+ * token, while each CJK character, punctuation mark or symbol tends to be its own token.
+ * A flat chars/4 ratio therefore undercounts Chinese text and code badly. This estimator
+ * counts per piece instead:
+ *
+ * - CJK ideographs, kana and hangul: 1 token per character
+ * - ASCII words: 1 token per 4 letters (long identifiers split into several)
+ * - digit runs: 1 token per 3 digits
+ * - ASCII punctuation and other symbols: 1 token each
+ * - other letters (accented, Cyrillic, ...): 1 token per 2 characters
+ * - whitespace: free after a single space, 1 token per 4 characters of indentation or blank lines
+ */
+
+const PIECE = /([\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af\uff00-\uffef])|([A-Za-z]+)|(\d+)|(\s+)|(\p{L}+)|([^])/gu;
+
+function pieceTokens(match: RegExpMatchArray): number {
+  const [text, cjk, word, digits, space, letters] = match;
+  if (cjk) return 1;
+  if (word) return Math.ceil(word.length / 4);
+  if (digits) return Math.ceil(digits.length / 3);
+  if (space) return space.length <= 1 ? 0 : Math.ceil((space.length - 1) / 4);
+  if (letters) return Math.ceil(letters.length / 2);
+  return text.length > 0 ? 1 : 0;
+}
+
+/**
+ * Estimate how many tokens a model will need for `text`.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const match of text.matchAll(PIECE)) {
+    tokens += pieceTokens(match);
+  }
+  return tokens;
+}
+
+/**
+ * Longest prefix of `text` estimated at no more than `maxTokens`.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (maxTokens <= 0) return '';
+
+  let tokens = 0;
+  for (const match of text.matchAll(PIECE)) {
+    tokens += pieceTokens(match);
+    if (tokens > maxTokens) {
+      return text.slice(0, match.index);
+    }
+  }
+  return text;
+}